@@ -0,0 +1,59 @@
+import { performance } from 'perf_hooks'
+import Iter from '../src'
+
+/**
+ * Benchmarks reproducing the tables of the README: mapping over `n` entries
+ * of an `Array` / `Iter`, doubling the value of each entry.
+ *
+ * Run with `npm run bench`.
+ */
+
+const SIZES = [10_000, 100_000, 1_000_000]
+const RUNS = 10
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+const measure = (fn: () => unknown) => {
+  fn()
+
+  const times: number[] = []
+
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now()
+    fn()
+    times.push(performance.now() - start)
+  }
+
+  return `${Math.round(median(times))}ms`
+}
+
+const format = (size: number) => size.toLocaleString('de-DE')
+
+for (const size of SIZES) {
+  const source = Array.from({ length: size }, (_, i) => i)
+
+  const rows = [
+    ['Array', measure(() => source.map((x) => x * 2))],
+    [
+      'Iter',
+      measure(() =>
+        Iter.fromArray(source)
+          .map((x) => x * 2)
+          .collect()
+      ),
+    ],
+  ]
+
+  console.log(`- ${format(size)} entries\n`)
+  console.log('| Object | Runtime |')
+  console.log('| ------ | ------- |')
+
+  for (const [name, runtime] of rows) {
+    console.log(`| ${name.padEnd(6)} | ${runtime.padEnd(7)} |`)
+  }
+
+  console.log()
+}
@@ -0,0 +1,63 @@
+import { AbortError } from './errors'
+
+/**
+ * Options for the terminal methods of `Iter` and `AsyncIter`, which can all
+ * be cancelled.
+ */
+export type SignalOptions = {
+  /**
+   * A signal to stop the iteration with. Once aborted, the source isn't read
+   * any further, it is closed and an `AbortError` is thrown.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Throws an `AbortError` if the signal has been aborted.
+ *
+ * @param signal The signal to check, if any.
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new AbortError(signal.reason)
+  }
+}
+
+/**
+ * Reads an iterable, throwing an `AbortError` before the first entry and
+ * between entries once the signal is aborted, which closes the source.
+ *
+ * @param source The iterable to read.
+ * @param signal The signal to check.
+ */
+export function* abortable<A>(source: Iterable<A>, signal: AbortSignal) {
+  throwIfAborted(signal)
+
+  for (const item of source) {
+    yield item
+    throwIfAborted(signal)
+  }
+}
+
+/**
+ * Creates a promise rejecting with an `AbortError` once the signal is
+ * aborted, to race against a pending read.
+ *
+ * @param signal The signal to listen to.
+ * @returns The promise, and a function removing the listener.
+ */
+export const whenAborted = (signal: AbortSignal) => {
+  let listener = () => {}
+
+  const promise = new Promise<never>((_, reject) => {
+    listener = () => reject(new AbortError(signal.reason))
+    signal.addEventListener('abort', listener, { once: true })
+  })
+
+  promise.catch(() => {})
+
+  return {
+    promise,
+    dispose: () => signal.removeEventListener('abort', listener),
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  arrayAccess,
+  iterateAccess,
+  mapAccess,
+  reverseAccess,
+  sliceAccess,
+  stepAccess,
+  zipAccess,
+} from './access'
+
+describe('Access', () => {
+  const array = [1, 2, 3, 4]
+
+  it('should read arrays lazily', () => {
+    const source = [1]
+    const access = arrayAccess(source)
+    source.push(2)
+
+    expect(access.size()).toBe(2)
+    expect(access.get(1)).toBe(2)
+  })
+
+  it('should map entries along with their index', () => {
+    const access = mapAccess(arrayAccess(array), (x, i) => x * 10 + i)
+    expect([...iterateAccess(access)]).toEqual([10, 21, 32, 43])
+  })
+
+  it('should slice and reverse accesses', () => {
+    const access = reverseAccess(sliceAccess(arrayAccess(array), 1, -1))
+
+    expect(access.size()).toBe(2)
+    expect([...iterateAccess(access)]).toEqual([3, 2])
+    expect(sliceAccess(arrayAccess(array), 10).size()).toBe(0)
+    expect(sliceAccess(arrayAccess(array), -3, 2).size()).toBe(1)
+  })
+
+  it('should truncate fractional slice bounds as Array.slice does', () => {
+    const access = sliceAccess(arrayAccess(array), 0.5, 2.5)
+
+    expect([...iterateAccess(access)]).toEqual(array.slice(0.5, 2.5))
+    expect(sliceAccess(arrayAccess(array), NaN).size()).toBe(4)
+  })
+
+  it('should read every n-th entry', () => {
+    const access = stepAccess(arrayAccess(array), 3)
+    expect([...iterateAccess(access)]).toEqual([1, 4])
+  })
+
+  it('should zip accesses up to the shortest', () => {
+    const access = zipAccess([arrayAccess(array), arrayAccess(['a', 'b'])])
+    expect([...iterateAccess(access)]).toEqual([
+      [1, 'a'],
+      [2, 'b'],
+    ])
+  })
+})
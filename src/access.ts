@@ -0,0 +1,106 @@
+/**
+ * # Access
+ *
+ * Random access to the entries of a source whose size is known without
+ * iterating it, such as an array or a range. Both functions are read lazily,
+ * so later changes to the source are picked up.
+ */
+export type Access<A> = {
+  size(): number
+  get(index: number): A
+}
+
+/**
+ * Random access to the entries of an array.
+ *
+ * @param array The array to read.
+ */
+export const arrayAccess = <A>(array: readonly A[]): Access<A> => ({
+  size: () => array.length,
+  get: (index) => array[index],
+})
+
+/**
+ * Maps every entry read through an access, along with its index.
+ *
+ * @param access The access to read.
+ * @param mapper A function mapping an entry and its index.
+ */
+export const mapAccess = <A, B>(
+  access: Access<A>,
+  mapper: (item: A, index: number) => B
+): Access<B> => ({
+  size: access.size,
+  get: (index) => mapper(access.get(index), index),
+})
+
+/**
+ * Resolves a bound of `Array.prototype.slice`, truncated to an integer and
+ * counting from the end when negative.
+ */
+const bound = (index: number, size: number) => {
+  const i = Math.trunc(index) || 0
+  return i < 0 ? Math.max(size + i, 0) : Math.min(i, size)
+}
+
+/**
+ * Restricts an access to a window of its entries, with the same bounds as
+ * `Array.prototype.slice`.
+ *
+ * @param access The access to read.
+ * @param start Index of the first entry, counting from the end when negative.
+ * @param end Index after the last entry, counting from the end when negative.
+ */
+export const sliceAccess = <A>(
+  access: Access<A>,
+  start: number,
+  end = Infinity
+): Access<A> => ({
+  size: () => {
+    const size = access.size()
+    return Math.max(0, bound(end, size) - bound(start, size))
+  },
+  get: (index) => access.get(bound(start, access.size()) + index),
+})
+
+/**
+ * Reads every `step`-th entry of an access, starting with the first one.
+ *
+ * @param access The access to read.
+ * @param step Distance between two entries.
+ */
+export const stepAccess = <A>(access: Access<A>, step: number): Access<A> => ({
+  size: () => Math.ceil(access.size() / step),
+  get: (index) => access.get(index * step),
+})
+
+/**
+ * Reads the entries of an access backwards.
+ *
+ * @param access The access to read.
+ */
+export const reverseAccess = <A>(access: Access<A>): Access<A> => ({
+  size: access.size,
+  get: (index) => access.get(access.size() - 1 - index),
+})
+
+/**
+ * Reads the entries of many accesses side by side, stopping at the shortest.
+ *
+ * @param accesses The accesses to read.
+ */
+export const zipAccess = (accesses: Access<unknown>[]): Access<unknown[]> => ({
+  size: () => Math.min(...accesses.map((access) => access.size())),
+  get: (index) => accesses.map((access) => access.get(index)),
+})
+
+/**
+ * Iterates the entries of an access in order.
+ *
+ * @param access The access to read.
+ */
+export function* iterateAccess<A>(access: Access<A>) {
+  for (let i = 0; i < access.size(); i++) {
+    yield access.get(i)
+  }
+}
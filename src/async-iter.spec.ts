@@ -0,0 +1,674 @@
+import Iter, {
+  AbortError,
+  AsyncIter,
+  ConsumedIterableError,
+  ParseError,
+  Scheduler,
+  TimeoutError,
+} from './index'
+
+describe('AsyncIter - Constructors', () => {
+  describe('AsyncIter.fromArray()', () => {
+    it('should be able to generate an instance of an AsyncIter', () => {
+      const iter = AsyncIter.fromArray([1, 2, 3])
+      expect(iter).toBeInstanceOf(AsyncIter)
+    })
+
+    it('should collect to the original array', async () => {
+      const result = await AsyncIter.fromArray([1, 2, 3]).collect()
+      expect(result).toEqual([1, 2, 3])
+    })
+  })
+
+  describe('AsyncIter.fromAsyncGenerator()', () => {
+    const generator = async function* () {
+      yield 1
+      yield 2
+      yield 3
+    }
+
+    it('should be able to generate an instance of an AsyncIter', () => {
+      const result = AsyncIter.fromAsyncGenerator(generator)
+      expect(result).toBeInstanceOf(AsyncIter)
+    })
+
+    it('should collect to an array of [1, 2, 3]', async () => {
+      const result = await AsyncIter.fromAsyncGenerator(generator).collect()
+      expect(result).toEqual([1, 2, 3])
+    })
+  })
+
+  describe('AsyncIter.fromGenerator()', () => {
+    it('should collect to an array of [1, 2, 3]', async () => {
+      const generator = function* () {
+        yield 1
+        yield 2
+        yield 3
+      }
+
+      const result = await AsyncIter.fromGenerator(generator).collect()
+      expect(result).toEqual([1, 2, 3])
+    })
+  })
+
+  describe('AsyncIter.fromAsyncIterable()', () => {
+    it('should be able to collect to an array', async () => {
+      const source = {
+        async *[Symbol.asyncIterator]() {
+          yield 'a'
+          yield 'b'
+        },
+      }
+
+      const result = await AsyncIter.fromAsyncIterable(source).collect()
+      expect(result).toEqual(['a', 'b'])
+    })
+  })
+
+  describe('AsyncIter.fromIterable()', () => {
+    it('should be able to collect to an array', async () => {
+      const result = await AsyncIter.fromIterable('123').collect()
+      expect(result).toEqual(['1', '2', '3'])
+    })
+  })
+
+  describe('AsyncIter.fromPromises()', () => {
+    it('should yield the resolved values in order', async () => {
+      const promises = [Promise.resolve(1), 2, Promise.resolve(3)]
+      const result = await AsyncIter.fromPromises(promises).collect()
+      expect(result).toEqual([1, 2, 3])
+    })
+  })
+
+  describe('AsyncIter.range()', () => {
+    it('should collect to an array of [0, 1, 2]', async () => {
+      const result = await AsyncIter.range(0, 3).collect()
+      expect(result).toEqual([0, 1, 2])
+    })
+
+    it('should be able to generate a range from positive to negative interval', async () => {
+      const result = await AsyncIter.range(0, -4).collect()
+      expect(result).toEqual([0, -1, -2, -3])
+    })
+  })
+
+  describe('AsyncIter.repeat()', () => {
+    it('should collect to an array of [1, 1, 1]', async () => {
+      const result = await AsyncIter.repeat(1, 3).collect()
+      expect(result).toEqual([1, 1, 1])
+    })
+  })
+
+  describe('Iter.toAsync()', () => {
+    it('should turn an Iter into an AsyncIter', async () => {
+      const iter = Iter.range(0, 3).toAsync()
+      expect(iter).toBeInstanceOf(AsyncIter)
+      expect(await iter.collect()).toEqual([0, 1, 2])
+    })
+  })
+})
+
+describe('AsyncIter - Methods', () => {
+  let iter: AsyncIter<number>
+
+  beforeEach(() => {
+    iter = AsyncIter.fromArray([1, 2, 3])
+  })
+
+  describe('AsyncIter.map()', () => {
+    it('should duplicate the values of each entry', async () => {
+      const result = await iter.map((x) => x * 2).collect()
+      expect(result).toEqual([2, 4, 6])
+    })
+
+    it('should await async predicates', async () => {
+      const result = await iter.map(async (x) => String(x)).collect()
+      expect(result).toEqual(['1', '2', '3'])
+    })
+  })
+
+  describe('AsyncIter.filter()', () => {
+    it('should filter out all odd numbers', async () => {
+      const result = await iter.filter(async (x) => x % 2 === 0).collect()
+      expect(result).toEqual([2])
+    })
+  })
+
+  describe('AsyncIter.reject()', () => {
+    it('should filter out all even numbers', async () => {
+      const result = await iter.reject(async (x) => x % 2 === 0).collect()
+      expect(result).toEqual([1, 3])
+    })
+  })
+
+  describe('AsyncIter.take()', () => {
+    it('should take only the first 5 elements of an infinite range', async () => {
+      const result = await AsyncIter.range(0, Infinity).take(5).collect()
+      expect(result).toEqual([0, 1, 2, 3, 4])
+    })
+
+    it('should not pull more entries than taken', async () => {
+      const spy = jest.fn()
+      await iter.inspect(spy).take(2).collect()
+      expect(spy).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('AsyncIter.reduce()', () => {
+    it('should sum all numbers', async () => {
+      const result = await iter.reduce(async (x, y) => x + y, 10)
+      expect(result).toEqual(16)
+    })
+  })
+
+  describe('AsyncIter.fold()', () => {
+    it('should sum all numbers', async () => {
+      const result = await iter.fold(10, async (x, y) => x + y)
+      expect(result).toEqual(16)
+    })
+  })
+
+  describe('AsyncIter.scan()', () => {
+    it('should yield the running totals', async () => {
+      const result = await iter.scan(async (x, y) => x + y, 0).collect()
+      expect(result).toEqual([1, 3, 6])
+    })
+  })
+
+  describe('AsyncIter.pairwise()', () => {
+    it('should return an array of pairs', async () => {
+      const result = await iter.pairwise().collect()
+      expect(result).toEqual([
+        [1, 2],
+        [2, 3],
+      ])
+    })
+  })
+
+  describe('AsyncIter.enumerate()', () => {
+    it("should return pairs containing the item and it's index", async () => {
+      const result = await iter.enumerate().collect()
+      expect(result).toEqual([
+        [0, 1],
+        [1, 2],
+        [2, 3],
+      ])
+    })
+  })
+
+  describe('AsyncIter.partition()', () => {
+    it('should partition the iterable into two parts', async () => {
+      const [evens, odds] = iter.partition(async (x) => x % 2 === 0)
+      expect(await evens.collect()).toEqual([2])
+      expect(await odds.collect()).toEqual([1, 3])
+    })
+
+    it('should read a one-shot source once', async () => {
+      const spy = jest.fn(async (x: number) => x % 2 === 0)
+      const source = AsyncIter.fromAsyncGenerator(async function* () {
+        yield* [1, 2, 3, 4]
+      })[Symbol.asyncIterator]()
+      const [evens, odds] = AsyncIter.fromAsyncIterable({
+        [Symbol.asyncIterator]: () => source,
+      }).partition(spy)
+
+      const both = await Promise.all([odds.collect(), evens.collect()])
+
+      expect(both).toEqual([
+        [1, 3],
+        [2, 4],
+      ])
+      expect(spy).toHaveBeenCalledTimes(4)
+    })
+
+    it('should rethrow an upstream error in both halves', async () => {
+      const [evens, odds] = AsyncIter.fromAsyncGenerator(async function* () {
+        yield* [1, 2]
+        throw new Error('Boom')
+      }).partition((x) => x % 2 === 0)
+
+      await expect(evens.collect()).rejects.toThrow('Boom')
+      await expect(odds.collect()).rejects.toThrow('Boom')
+    })
+
+    it('should close the upstream when only one half is consumed', async () => {
+      const cleanup = jest.fn()
+      const [evens] = AsyncIter.fromAsyncGenerator(async function* () {
+        try {
+          yield* [1, 2, 3, 4]
+        } finally {
+          cleanup()
+        }
+      }).partition((x) => x % 2 === 0)
+
+      expect(await evens.take(1).collect()).toEqual([2])
+      expect(cleanup).toHaveBeenCalledTimes(1)
+      await expect(evens.collect()).rejects.toBeInstanceOf(
+        ConsumedIterableError
+      )
+    })
+  })
+
+  describe('AsyncIter.inspect()', () => {
+    it('should call the inspector function when evaluated', async () => {
+      const spy = jest.fn()
+      const result = await iter.inspect(spy).collect()
+      expect(spy).toHaveBeenCalledTimes(3)
+      expect(result).toEqual([1, 2, 3])
+    })
+  })
+
+  describe('AsyncIter.all()', () => {
+    it('should check whether all elements match the predicate', async () => {
+      expect(await iter.all(async (x) => x < 10)).toBe(true)
+      expect(await iter.all(async (x) => x % 2 === 0)).toBe(false)
+    })
+  })
+
+  describe('AsyncIter.any()', () => {
+    it('should check whether any element matches the predicate', async () => {
+      expect(await iter.any(async (x) => x % 2 === 0)).toBe(true)
+      expect(await iter.any(async (x) => x > 10)).toBe(false)
+    })
+  })
+
+  describe('AsyncIter.mapConcurrent()', () => {
+    const sleep = (ms: number) =>
+      new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+    it('should never run more than `concurrency` operations at once', async () => {
+      let running = 0
+      let peak = 0
+
+      const result = await AsyncIter.range(0, 10)
+        .mapConcurrent(
+          async (x) => {
+            running++
+            peak = Math.max(peak, running)
+            await sleep(5)
+            running--
+            return x * 2
+          },
+          { concurrency: 3 }
+        )
+        .collect()
+
+      expect(result).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18])
+      expect(peak).toBe(3)
+    })
+
+    it('should only pull the upstream when a slot frees up', async () => {
+      const pulled = jest.fn()
+      const iter = AsyncIter.range(0, Infinity)
+        .inspect(pulled)
+        .mapConcurrent((x) => x, { concurrency: 2 })
+
+      const result = await iter.take(3).collect()
+
+      expect(result).toEqual([0, 1, 2])
+      expect(pulled.mock.calls.length).toBeLessThanOrEqual(5)
+    })
+
+    it('should preserve the input order when ordered', async () => {
+      const result = await iter
+        .mapConcurrent(
+          async (x) => {
+            await sleep((4 - x) * 5)
+            return x
+          },
+          { concurrency: 3 }
+        )
+        .collect()
+
+      expect(result).toEqual([1, 2, 3])
+    })
+
+    it('should yield results as they complete when unordered', async () => {
+      const result = await iter
+        .mapConcurrent(
+          async (x) => {
+            await sleep((4 - x) * 5)
+            return x
+          },
+          { concurrency: 3, ordered: false }
+        )
+        .collect()
+
+      expect(result).toEqual([3, 2, 1])
+    })
+
+    it('should propagate errors and abort the remaining operations', async () => {
+      const cleanup = jest.fn()
+      const signals: AbortSignal[] = []
+      const source = AsyncIter.fromAsyncGenerator(async function* () {
+        try {
+          yield* [1, 2, 3]
+        } finally {
+          cleanup()
+        }
+      })
+
+      const result = source
+        .mapConcurrent(
+          async (x, signal) => {
+            signals.push(signal)
+            if (x === 2) {
+              throw new Error('Boom')
+            }
+
+            await sleep(20)
+            return x
+          },
+          { concurrency: 3 }
+        )
+        .collect()
+
+      await expect(result).rejects.toThrow('Boom')
+      expect(signals.every((signal) => signal.aborted)).toBe(true)
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('should throw a RangeError for an invalid concurrency', () => {
+      expect(() => iter.mapConcurrent((x) => x, { concurrency: 0 })).toThrow(
+        RangeError
+      )
+    })
+  })
+
+  describe('AsyncIter.forEach()', () => {
+    it('should call the callback for each element', async () => {
+      const spy = jest.fn()
+      await iter.forEach(spy)
+      expect(spy).toHaveBeenCalledTimes(3)
+      expect(spy).toHaveBeenNthCalledWith(1, 1)
+    })
+  })
+
+  describe('AsyncIter[Symbol.asyncIterator]()', () => {
+    it('should be usable with for await', async () => {
+      const result: number[] = []
+      for await (const item of iter) {
+        result.push(item)
+      }
+
+      expect(result).toEqual([1, 2, 3])
+    })
+  })
+})
+
+describe('AsyncIter - Time', () => {
+  const flush = async () => {
+    for (let i = 0; i < 20; i++) {
+      await Promise.resolve()
+    }
+  }
+
+  const advance = async (ms: number) => {
+    for (let t = 0; t < ms; t++) {
+      jest.advanceTimersByTime(1)
+      await flush()
+    }
+  }
+
+  // Yields every value once its delay, counted from the previous one, elapsed.
+  const emit = <T>(schedule: [number, T][]) =>
+    AsyncIter.fromAsyncGenerator(async function* () {
+      for (const [delay, value] of schedule) {
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        yield value
+      }
+    })
+
+  const run = async <T>(iter: AsyncIter<T>, ms: number) => {
+    let result: T[] | undefined
+    let error: unknown
+
+    iter.collect().then(
+      (items) => (result = items),
+      (reason) => (error = reason)
+    )
+
+    await advance(ms)
+    return { result, error }
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['performance'] })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('AsyncIter.throttle()', () => {
+    it('should drop the entries arriving too soon', async () => {
+      const source = emit([
+        [0, 'a'],
+        [30, 'b'],
+        [30, 'c'],
+        [50, 'd'],
+      ])
+
+      const { result } = await run(source.throttle(100), 200)
+      expect(result).toEqual(['a', 'd'])
+    })
+  })
+
+  describe('AsyncIter.debounce()', () => {
+    it('should only yield the entries followed by a quiet time', async () => {
+      const source = emit([
+        [0, 'a'],
+        [30, 'b'],
+        [100, 'c'],
+        [30, 'd'],
+      ])
+
+      const { result } = await run(source.debounce(50), 300)
+      expect(result).toEqual(['b', 'd'])
+    })
+
+    it('should yield each entry of a slow source', async () => {
+      const source = emit([
+        [100, 1],
+        [100, 2],
+      ])
+
+      const { result } = await run(source.debounce(50), 300)
+      expect(result).toEqual([1, 2])
+    })
+  })
+
+  describe('AsyncIter.bufferTime()', () => {
+    it('should group the entries by time window', async () => {
+      const source = emit([
+        [0, 1],
+        [10, 2],
+        [100, 3],
+        [10, 4],
+        [10, 5],
+      ])
+
+      const { result } = await run(source.bufferTime(50), 300)
+      expect(result).toEqual([
+        [1, 2],
+        [3, 4, 5],
+      ])
+    })
+
+    it('should yield full groups right away', async () => {
+      const source = emit([
+        [0, 1],
+        [0, 2],
+        [0, 3],
+      ])
+
+      const { result } = await run(source.bufferTime(50, 2), 100)
+      expect(result).toEqual([[1, 2], [3]])
+    })
+
+    it('should throw a RangeError for an invalid size', () => {
+      expect(() => AsyncIter.fromArray([1]).bufferTime(10, 0)).toThrow(
+        RangeError
+      )
+    })
+  })
+
+  describe('AsyncIter.timeout()', () => {
+    it('should fail when an entry takes too long', async () => {
+      const source = emit([
+        [10, 1],
+        [100, 2],
+      ])
+
+      const { error } = await run(source.timeout(50), 100)
+      expect(error).toBeInstanceOf(TimeoutError)
+    })
+
+    it('should let fast entries through', async () => {
+      const source = emit([
+        [10, 1],
+        [40, 2],
+      ])
+
+      const { result } = await run(source.timeout(50), 100)
+      expect(result).toEqual([1, 2])
+    })
+  })
+
+  describe('AsyncIter.delay()', () => {
+    it('should wait before every entry', async () => {
+      const iter = AsyncIter.fromArray([1, 2]).delay(50)
+
+      expect((await run(iter, 60)).result).toBeUndefined()
+      expect((await run(iter, 120)).result).toEqual([1, 2])
+    })
+  })
+
+  describe('AsyncIter.interval()', () => {
+    it('should tick every period', async () => {
+      const { result } = await run(AsyncIter.interval(10).take(3), 30)
+      expect(result).toEqual([0, 1, 2])
+    })
+
+    it('should accept a custom scheduler', async () => {
+      const scheduler: Scheduler = {
+        now: () => 0,
+        setTimeout: (callback) => Promise.resolve().then(callback),
+        clearTimeout: () => {},
+      }
+
+      jest.useRealTimers()
+      const result = await AsyncIter.interval(1000, { scheduler })
+        .take(3)
+        .collect()
+
+      expect(result).toEqual([0, 1, 2])
+    })
+  })
+})
+
+describe('AsyncIter - Cancellation', () => {
+  const never = <T>() =>
+    AsyncIter.fromAsyncGenerator<T>(async function* () {
+      await new Promise(() => {})
+    })
+
+  it('should reject with an AbortError without waiting for the source', async () => {
+    const controller = new AbortController()
+    const result = never<number>().collect({ signal: controller.signal })
+
+    controller.abort()
+    await expect(result).rejects.toThrow(AbortError)
+  })
+
+  it('should close the source once aborted', async () => {
+    const controller = new AbortController()
+    const cleanup = jest.fn()
+    const source = AsyncIter.fromAsyncGenerator(async function* () {
+      try {
+        yield* [1, 2, 3]
+      } finally {
+        cleanup()
+      }
+    })
+
+    const result = source.forEach(
+      (x) => {
+        if (x === 2) {
+          controller.abort()
+        }
+      },
+      { signal: controller.signal }
+    )
+
+    await expect(result).rejects.toThrow(AbortError)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it('should accept a signal in all and any', async () => {
+    const controller = new AbortController()
+    const { signal } = controller
+    const pending = [
+      never<number>().all(Boolean, { signal }),
+      never<number>().any(Boolean, { signal }),
+    ]
+
+    controller.abort()
+    for (const result of pending) {
+      await expect(result).rejects.toThrow(AbortError)
+    }
+    await expect(
+      AsyncIter.fromArray([1, 2, 3]).any((x) => x > 2, { signal: undefined })
+    ).resolves.toBe(true)
+  })
+
+  it('should accept a signal in reduce and fold', async () => {
+    const { signal } = new AbortController()
+    const iter = AsyncIter.fromArray([1, 2, 3])
+
+    expect(await iter.reduce((a, b) => a + b, 0, { signal })).toBe(6)
+    expect(await iter.fold(0, (a, b) => a + b, { signal })).toBe(6)
+  })
+
+  describe('AsyncIter.takeUntilSignal()', () => {
+    it('should end once the signal is aborted', async () => {
+      const controller = new AbortController()
+      const source = AsyncIter.fromAsyncGenerator(async function* () {
+        yield 1
+        await new Promise(() => {})
+      })
+
+      setTimeout(() => controller.abort(), 10)
+      const result = await source.takeUntilSignal(controller.signal).collect()
+
+      expect(result).toEqual([1])
+    })
+  })
+})
+
+describe('AsyncIter - Formats', () => {
+  it('should parse NDJSON chunks', async () => {
+    const values = AsyncIter.fromArray(['{"a":1}\n{"a"', ':2}']).parseNdjson()
+
+    expect(await values.collect()).toEqual([{ a: 1 }, { a: 2 }])
+  })
+
+  it('should report the row of malformed CSV', async () => {
+    const records = AsyncIter.fromArray(['a,b\n1,2\n3\n']).parseCsv()
+
+    await expect(records.collect()).rejects.toMatchObject({
+      name: 'ParseError',
+      row: 3,
+      line: 3,
+    })
+    await expect(records.collect()).rejects.toBeInstanceOf(ParseError)
+  })
+
+  it('should serialize entries into CSV and NDJSON lines', async () => {
+    const rows = AsyncIter.fromArray([['a', 'b,c']])
+    const objects = AsyncIter.fromArray([{ a: 1 }])
+
+    expect(await rows.toCsv().collect()).toEqual(['a,"b,c"\n'])
+    expect(await objects.toNdjson().collect()).toEqual(['{"a":1}\n'])
+  })
+})
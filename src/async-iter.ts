@@ -0,0 +1,1369 @@
+import { SignalOptions, throwIfAborted, whenAborted } from './abort'
+import { ConsumedIterableError, TimeoutError } from './errors'
+import {
+  CsvOptions,
+  csvOptions,
+  CsvParser,
+  CsvRecord,
+  csvWriter,
+  NdjsonParser,
+  toNdjsonLine,
+} from './formats'
+import type { TeeOptions } from './index'
+import { createRange, RangeOptions } from './range'
+import {
+  assertDuration,
+  defaultScheduler,
+  ELAPSED,
+  timer,
+  Timer,
+  TimeOptions,
+} from './time'
+
+const clone = <T>(source: T[]): T[] => [...source]
+
+/**
+ * A value that may or may not be wrapped in a promise.
+ */
+export type Awaitable<T> = T | PromiseLike<T>
+
+/**
+ * Options for `AsyncIter.mapConcurrent`.
+ */
+export type MapConcurrentOptions = {
+  /**
+   * Maximum number of mapping operations in flight at any time.
+   */
+  concurrency: number
+  /**
+   * Whether results are yielded in input order (the default) or as soon as
+   * they complete.
+   */
+  ordered?: boolean
+}
+
+const noop = () => {}
+
+/**
+ * Returned by the callback of `AsyncIter.each` to stop the iteration early,
+ * closing the source.
+ */
+const STOP: unique symbol = Symbol('stop')
+
+/**
+ * Closes an async iterator. When a `next()` call is still in flight, the
+ * iterator can only close once it settles, which may never happen for a
+ * live source, so it isn't awaited.
+ */
+const release = async <A>(iterator: AsyncIterator<A>, inFlight: boolean) => {
+  const closing = Promise.resolve(iterator.return?.())
+
+  if (inFlight) {
+    closing.catch(noop)
+    return
+  }
+
+  await closing
+}
+
+/**
+ * # AsyncIter
+ *
+ * AsyncIter is the asynchronous counterpart of `Iter`, it implements utility
+ * methods for async generator objects, such as map, filter, reduce and more.
+ * Every predicate may return a promise, which is awaited before moving on to
+ * the next entry.
+ */
+export default class AsyncIter<A> {
+  private constructor(private factory: () => AsyncGenerator<A>) {}
+
+  /**
+   * Runs the `AsyncIter` to completion, or until the callback returns
+   * `STOP`. With a signal, a pending read is raced against it, so an abort
+   * doesn't wait for the source.
+   */
+  private async each(
+    callback: (item: A) => Awaitable<void | typeof STOP>,
+    signal?: AbortSignal
+  ) {
+    if (!signal) {
+      for await (const item of this.factory()) {
+        if ((await callback(item)) === STOP) {
+          return
+        }
+      }
+
+      return
+    }
+
+    throwIfAborted(signal)
+
+    const iterator = this.factory()
+    const aborted = whenAborted(signal)
+    let inFlight = false
+
+    try {
+      while (true) {
+        inFlight = true
+        const next = await Promise.race([iterator.next(), aborted.promise])
+        inFlight = false
+
+        if (next.done) {
+          return
+        }
+
+        if ((await callback(next.value)) === STOP) {
+          return
+        }
+
+        throwIfAborted(signal)
+      }
+    } finally {
+      aborted.dispose()
+      await release(iterator, inFlight)
+    }
+  }
+
+  /**
+   * # AsyncIter.map
+   *
+   * Exposes a mapping interface to an `AsyncIter` object.
+   *
+   * @example
+   *
+   * AsyncIter.range(1, 10).map(async x => x * 2) // AsyncIter<number> { ... }
+   *
+   * @param predicate A predicate function to map over the `AsyncIter` entry.
+   * @returns A new `AsyncIter` containing the mapped entries of the original `AsyncIter`.
+   */
+  map<B>(predicate: (item: A) => Awaitable<B>) {
+    const context = this
+    const factory = async function* (): AsyncGenerator<B> {
+      for await (const item of context.factory()) {
+        yield await predicate(item)
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.mapConcurrent
+   *
+   * Maps over the `AsyncIter` entries running at most `concurrency` mapping
+   * operations at the same time. The upstream is only pulled when a slot frees
+   * up, and results are yielded in input order unless `ordered` is `false`.
+   *
+   * If a mapping operation fails, the remaining operations are cancelled
+   * through the given `AbortSignal` and the error is rethrown.
+   *
+   * @example
+   *
+   * AsyncIter.fromArray(urls).mapConcurrent(
+   *   (url, signal) => fetch(url, { signal }),
+   *   { concurrency: 4 }
+   * ) // AsyncIter<Response> { ... }
+   *
+   * @param predicate A function to map over the `AsyncIter` entry.
+   * @param options The concurrency limit and ordering of the results.
+   * @returns A new `AsyncIter` containing the mapped entries.
+   */
+  mapConcurrent<B>(
+    predicate: (item: A, signal: AbortSignal) => Awaitable<B>,
+    { concurrency, ordered = true }: MapConcurrentOptions
+  ) {
+    if (
+      !(concurrency >= 1) ||
+      !(Number.isInteger(concurrency) || concurrency === Infinity)
+    ) {
+      throw new RangeError(
+        `AsyncIter.mapConcurrent: concurrency must be a positive integer, got ${concurrency}`
+      )
+    }
+
+    const context = this
+    const factory = async function* (): AsyncGenerator<B> {
+      const iterator = context.factory()
+      const controller = new AbortController()
+      const pending = new Map<number, Promise<[number, B]>>()
+      let id = 0
+      let done = false
+      let fail: (error: unknown) => void = noop
+      const failure = new Promise<never>((_, reject) => (fail = reject))
+      failure.catch(noop)
+
+      const fill = async () => {
+        while (!done && pending.size < concurrency) {
+          const next = await iterator.next()
+
+          if (next.done) {
+            done = true
+            return
+          }
+
+          const key = id++
+          const task = Promise.resolve()
+            .then(() => predicate(next.value, controller.signal))
+            .then((value): [number, B] => [key, value])
+
+          task.catch(fail)
+          pending.set(key, task)
+        }
+      }
+
+      try {
+        for (await fill(); pending.size > 0; await fill()) {
+          const [key, value] = ordered
+            ? await Promise.race([pending.values().next().value, failure])
+            : await Promise.race(pending.values())
+
+          pending.delete(key)
+          yield value
+        }
+      } finally {
+        controller.abort()
+        await iterator.return(undefined)
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.throttle
+   *
+   * Utility method to let through at most one entry of an `AsyncIter` object
+   * every `ms` milliseconds. The first entry of every period is yielded and
+   * the following ones are dropped.
+   *
+   * @example
+   *
+   * AsyncIter.fromAsyncIterable(mouseMoves).throttle(100) // AsyncIter<MouseEvent> { ... }
+   *
+   * @param ms Length of a period, in milliseconds.
+   * @param options The scheduler to read the time from.
+   * @returns A new `AsyncIter` containing the throttled entries.
+   */
+  throttle(ms: number, { scheduler = defaultScheduler }: TimeOptions = {}) {
+    assertDuration('ms', ms)
+
+    const context = this
+    const factory = async function* () {
+      let last = -Infinity
+
+      for await (const item of context.factory()) {
+        const now = scheduler.now()
+
+        if (now - last >= ms) {
+          last = now
+          yield item
+        }
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.debounce
+   *
+   * Utility method to yield an entry of an `AsyncIter` object only once no
+   * other entry has arrived for `ms` milliseconds. Entries followed too soon
+   * by another one are dropped, and the last entry is yielded when the
+   * source ends.
+   *
+   * @example
+   *
+   * AsyncIter.fromAsyncIterable(keystrokes).debounce(300) // AsyncIter<string> { ... }
+   *
+   * @param ms Quiet time required after an entry, in milliseconds.
+   * @param options The scheduler to create the timers with.
+   * @returns A new `AsyncIter` containing the debounced entries.
+   */
+  debounce(ms: number, { scheduler = defaultScheduler }: TimeOptions = {}) {
+    assertDuration('ms', ms)
+
+    const context = this
+    const factory = async function* () {
+      const iterator = context.factory()
+      let pending: Promise<IteratorResult<A>> | undefined
+      let latest: [A] | undefined
+      let quiet: Timer | undefined
+
+      try {
+        while (true) {
+          pending ??= iterator.next()
+          const next = await (quiet
+            ? Promise.race([pending, quiet.promise])
+            : pending)
+
+          if (next === ELAPSED) {
+            const [item] = latest as [A]
+            latest = quiet = undefined
+            yield item
+            continue
+          }
+
+          pending = undefined
+          quiet?.cancel()
+
+          if (next.done) {
+            if (latest) {
+              yield latest[0]
+            }
+
+            return
+          }
+
+          latest = [next.value]
+          quiet = timer(scheduler, ms)
+        }
+      } finally {
+        quiet?.cancel()
+        await release(iterator, pending !== undefined)
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.bufferTime
+   *
+   * Utility method to group the entries of an `AsyncIter` object arriving
+   * within `ms` milliseconds of the first entry of the group. A group is also
+   * yielded as soon as it holds `maxSize` entries, and empty groups are never
+   * yielded.
+   *
+   * @example
+   *
+   * AsyncIter.fromAsyncIterable(events).bufferTime(1000, 100) // AsyncIter<Event[]> { ... }
+   *
+   * @param ms Time window of a group, in milliseconds.
+   * @param maxSize Maximum number of entries in a group, unbounded by default.
+   * @param options The scheduler to create the timers with.
+   * @returns A new `AsyncIter` containing the groups.
+   */
+  bufferTime(
+    ms: number,
+    maxSize = Infinity,
+    { scheduler = defaultScheduler }: TimeOptions = {}
+  ) {
+    assertDuration('ms', ms)
+
+    if (
+      !(maxSize >= 1) ||
+      !(Number.isInteger(maxSize) || maxSize === Infinity)
+    ) {
+      throw new RangeError(
+        `AsyncIter.bufferTime: maxSize must be a positive integer, got ${maxSize}`
+      )
+    }
+
+    const context = this
+    const factory = async function* () {
+      const iterator = context.factory()
+      let pending: Promise<IteratorResult<A>> | undefined
+      let buffer: A[] = []
+      let window: Timer | undefined
+
+      try {
+        while (true) {
+          pending ??= iterator.next()
+          const next = await (window
+            ? Promise.race([pending, window.promise])
+            : pending)
+
+          if (next !== ELAPSED) {
+            pending = undefined
+
+            if (next.done) {
+              if (buffer.length > 0) {
+                yield buffer
+              }
+
+              return
+            }
+
+            buffer.push(next.value)
+            window ??= timer(scheduler, ms)
+
+            if (buffer.length < maxSize) {
+              continue
+            }
+          }
+
+          window?.cancel()
+          window = undefined
+
+          const group = buffer
+          buffer = []
+          yield group
+        }
+      } finally {
+        window?.cancel()
+        await release(iterator, pending !== undefined)
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.timeout
+   *
+   * Utility method to fail when an entry of an `AsyncIter` object takes
+   * longer than `ms` milliseconds to arrive, throwing a `TimeoutError`.
+   *
+   * @example
+   *
+   * AsyncIter.fromAsyncIterable(socket).timeout(5000) // AsyncIter<Message> { ... }
+   *
+   * @param ms Maximum wait for every entry, in milliseconds.
+   * @param options The scheduler to create the timers with.
+   * @returns A new `AsyncIter` with the entries of the original `AsyncIter`.
+   */
+  timeout(ms: number, { scheduler = defaultScheduler }: TimeOptions = {}) {
+    assertDuration('ms', ms)
+
+    const context = this
+    const factory = async function* () {
+      const iterator = context.factory()
+      let waiting = false
+
+      try {
+        while (true) {
+          const deadline = timer(scheduler, ms)
+          waiting = true
+
+          const next = await Promise.race([
+            iterator.next(),
+            deadline.promise,
+          ]).finally(deadline.cancel)
+
+          if (next === ELAPSED) {
+            throw new TimeoutError(ms)
+          }
+
+          waiting = false
+
+          if (next.done) {
+            return
+          }
+
+          yield next.value
+        }
+      } finally {
+        await release(iterator, waiting)
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.delay
+   *
+   * Utility method to wait `ms` milliseconds before yielding every entry of
+   * an `AsyncIter` object.
+   *
+   * @example
+   *
+   * AsyncIter.fromArray(jobs).delay(1000) // AsyncIter<Job> { ... }
+   *
+   * @param ms Wait before every entry, in milliseconds.
+   * @param options The scheduler to create the timers with.
+   * @returns A new `AsyncIter` with the entries of the original `AsyncIter`.
+   */
+  delay(ms: number, { scheduler = defaultScheduler }: TimeOptions = {}) {
+    assertDuration('ms', ms)
+
+    const context = this
+    const factory = async function* () {
+      for await (const item of context.factory()) {
+        await timer(scheduler, ms).promise
+        yield item
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.forEach
+   *
+   * Utility method to iterate over an `AsyncIter` object.
+   *
+   * @example
+   *
+   * await AsyncIter.range(0, 4).forEach(item => console.log(item))
+   *
+   * @param callback A callback function execute over each entry of the `AsyncIter` object.
+   * @param options A signal to abort the iteration with.
+   */
+  async forEach(
+    callback: (item: A) => Awaitable<void>,
+    { signal }: SignalOptions = {}
+  ) {
+    await this.each(callback, signal)
+  }
+
+  /**
+   * # AsyncIter.filter
+   *
+   * Exposes a filtering interface to an `AsyncIter` object.
+   *
+   * @example
+   *
+   * AsyncIter.range(1, 10).filter(async x => x % 2 === 0) // AsyncIter<number> { ... }
+   *
+   * @param predicate A predicate function to filter the `AsyncIter` entry.
+   * @returns A new `AsyncIter` containing the filtered entries of the original `AsyncIter`.
+   */
+  filter(predicate: (item: A) => Awaitable<boolean>) {
+    const context = this
+    const factory = async function* () {
+      for await (const item of context.factory()) {
+        if (await predicate(item)) {
+          yield item
+        }
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.take
+   *
+   * Utility method to take a number of items from an `AsyncIter` object.
+   *
+   * @example
+   *
+   * AsyncIter.range(1, Infinity).take(5) // AsyncIter<number> { ... }
+   *
+   * @param count Number of items to take from the `AsyncIter` object.
+   * @returns A new `AsyncIter` containing the taken items.
+   */
+  take(count: number) {
+    const context = this
+    const factory = async function* () {
+      if (count <= 0) {
+        return
+      }
+
+      let i = 0
+      for await (const item of context.factory()) {
+        yield item
+
+        if (++i >= count) {
+          break
+        }
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.takeUntilSignal
+   *
+   * Utility method to take the items of an `AsyncIter` object until a signal
+   * is aborted. A pending read is dropped as soon as it is, the source is
+   * closed and the `AsyncIter` ends without an error.
+   *
+   * @example
+   *
+   * const controller = new AbortController()
+   *
+   * AsyncIter.fromAsyncIterable(socket).takeUntilSignal(controller.signal) // AsyncIter<Message> { ... }
+   *
+   * @param signal The signal ending the `AsyncIter`.
+   * @returns A new `AsyncIter` containing the taken items.
+   */
+  takeUntilSignal(signal: AbortSignal) {
+    const context = this
+    const factory = async function* () {
+      if (signal.aborted) {
+        return
+      }
+
+      const iterator = context.factory()
+      const aborted = whenAborted(signal)
+      let inFlight = false
+
+      try {
+        while (!signal.aborted) {
+          inFlight = true
+          const next = await Promise.race([
+            iterator.next(),
+            aborted.promise.catch(() => undefined),
+          ])
+
+          if (!next) {
+            return
+          }
+
+          inFlight = false
+
+          if (next.done) {
+            return
+          }
+
+          yield next.value
+        }
+      } finally {
+        aborted.dispose()
+        await release(iterator, inFlight)
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.reduce
+   *
+   * Utility method to reduce an `AsyncIter` object.
+   *
+   * @example
+   *
+   * await AsyncIter.range(1, 10).reduce((total, item) => total + item, 0) // Number { 45 }
+   *
+   * @param reducer A reducer function to reduce the `AsyncIter` entry.
+   * @param initial The initial value to start the reduction.
+   * @param options A signal to abort the reduction with.
+   * @returns A promise of the reduced value.
+   */
+  async reduce<B>(
+    reducer: (reduced: B, item: A) => Awaitable<B>,
+    initial: B,
+    { signal }: SignalOptions = {}
+  ) {
+    let acc = initial
+    await this.each(async (item) => {
+      acc = await reducer(acc, item)
+    }, signal)
+
+    return acc
+  }
+
+  /**
+   * # AsyncIter.pairwise
+   *
+   * Utility method to pairwise an `AsyncIter` object.
+   *
+   * @example
+   *
+   * AsyncIter.range(1, 10).pairwise() // AsyncIter<[number, number]> { ... }
+   *
+   * @returns A new `AsyncIter` containing the entries of the original
+   * `AsyncIter` grouped in pairs.
+   */
+  pairwise() {
+    const context = this
+    const factory = async function* () {
+      let arr: A[] = []
+
+      for await (const item of context.factory()) {
+        arr.push(item)
+
+        if (arr.length == 2) {
+          yield clone(arr) as [A, A]
+          arr.splice(0, 1)
+        }
+      }
+    }
+
+    return new AsyncIter<[A, A]>(factory)
+  }
+
+  /**
+   * # AsyncIter.enumerate
+   *
+   * Utility method to enumerate an `AsyncIter` object.
+   *
+   * @example
+   *
+   * AsyncIter.range(1, 10).enumerate() // AsyncIter<[number, number]> { ... }
+   *
+   * @returns A new `AsyncIter` containing the entries of the original
+   * `AsyncIter` paired with their indexes.
+   */
+  enumerate() {
+    const context = this
+    const factory = async function* () {
+      let i = 0
+      for await (const item of context.factory()) {
+        yield [i, item] as [number, A]
+        i++
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.fold
+   *
+   * Utility method to fold an `AsyncIter` object.
+   *
+   * @example
+   *
+   * await AsyncIter.range(0, 4).fold(0, (total, item) => total + item) // number { 6 }
+   *
+   * @param initial The initial value to start folding.
+   * @param predicate A predicate function to fold the `AsyncIter` entry.
+   * @param options A signal to abort the fold with.
+   * @returns A promise of the folded value.
+   */
+  async fold<B>(
+    initial: B,
+    predicate: (acc: B, item: A) => Awaitable<B>,
+    options?: SignalOptions
+  ) {
+    return this.reduce(predicate, initial, options)
+  }
+
+  /**
+   * # AsyncIter.scan
+   *
+   * @example
+   *
+   * AsyncIter.range(1, 10).scan((total, item) => total + item, 0) // AsyncIter<number> { ... }
+   *
+   * @param scanner A scanner function to scan the `AsyncIter` entry.
+   * @param initial The initial value to start the scan.
+   * @returns An `AsyncIter` containing the scanned values.
+   */
+  scan<B>(scanner: (scan: B, item: A) => Awaitable<B>, initial: B) {
+    const context = this
+    const factory = async function* () {
+      let val = initial
+      for await (const item of context.factory()) {
+        val = await scanner(val, item)
+        yield val
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.partition
+   *
+   * Utility method to partition an `AsyncIter` object. The upstream is
+   * consumed only once and `partitionFn` is called once per entry, so both
+   * halves can be consumed in any order, even from one-shot sources such as
+   * streams. The entries of a half are buffered until it is read, which
+   * `bufferLimit` can bound.
+   *
+   * An upstream error reaches both halves once they have read their buffered
+   * entries, and the upstream is closed as soon as every started half has
+   * stopped. Each half can only be iterated once.
+   *
+   * @example
+   *
+   * const [even, odd] = AsyncIter.range(1, 10).partition(x => x % 2 === 0) // [AsyncIter<number>, AsyncIter<number>]
+   *
+   * @param partitionFn A function to partition the `AsyncIter` entry.
+   * @param options Optional limit of the entries buffered for each half.
+   * @returns A tuple containing the partitioned `AsyncIter` objects.
+   */
+  partition(
+    partitionFn: (item: A) => Awaitable<boolean>,
+    { bufferLimit = Infinity }: TeeOptions = {}
+  ): [AsyncIter<A>, AsyncIter<A>] {
+    const context = this
+    const buffers: A[][] = [[], []]
+    const states: ('idle' | 'running' | 'finished')[] = ['idle', 'idle']
+    let source: AsyncGenerator<A> | undefined
+    let pending: Promise<boolean> | undefined
+    let done = false
+    let closed = false
+    let failure: { error: unknown } | undefined
+
+    const read = async () => {
+      if (closed) {
+        throw new ConsumedIterableError(
+          'AsyncIter.partition: upstream was closed once every started half stopped'
+        )
+      }
+
+      source ??= context.factory()
+      let item: A
+      let half: number
+
+      try {
+        const next = await source.next()
+
+        if (next.done) {
+          done = true
+          return false
+        }
+
+        item = next.value
+        half = (await partitionFn(item)) ? 0 : 1
+      } catch (error) {
+        done = true
+        failure = { error }
+        throw error
+      }
+
+      if (states[half] !== 'finished') {
+        if (buffers[half].length >= bufferLimit) {
+          throw new RangeError(
+            `AsyncIter.partition: buffer limit of ${bufferLimit} entries exceeded`
+          )
+        }
+
+        buffers[half].push(item)
+      }
+
+      return true
+    }
+
+    // Both halves wait for the same read, so the upstream is read in order.
+    const pull = () =>
+      (pending ??= read().finally(() => {
+        pending = undefined
+      }))
+
+    const [truthy, falsy] = buffers.map(
+      (buffer, i) =>
+        async function* () {
+          if (states[i] !== 'idle') {
+            throw new ConsumedIterableError(
+              'AsyncIter.partition: half already consumed'
+            )
+          }
+
+          states[i] = 'running'
+
+          try {
+            for (;;) {
+              if (buffer.length > 0) {
+                yield buffer.shift() as A
+              } else if (done || !(await pull())) {
+                break
+              }
+            }
+
+            if (failure) {
+              throw failure.error
+            }
+          } finally {
+            states[i] = 'finished'
+            buffer.length = 0
+
+            if (source && !done && !closed && !states.includes('running')) {
+              closed = true
+              await release(source, false)
+            }
+          }
+        }
+    )
+
+    return [new AsyncIter(truthy), new AsyncIter(falsy)]
+  }
+
+  /**
+   * # AsyncIter.collect
+   *
+   * Utility method to collect an `AsyncIter` object to an array.
+   *
+   * @example
+   *
+   * await AsyncIter.range(0, 4).collect() // number[] [0, 1, 2, 3]
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns A promise of an array with the entries of the `AsyncIter` object.
+   */
+  async collect({ signal }: SignalOptions = {}) {
+    const items: A[] = []
+    await this.each((item) => {
+      items.push(item)
+    }, signal)
+
+    return items
+  }
+
+  /**
+   * # AsyncIter.inspect
+   *
+   * Utility method to inspect the entries of an `AsyncIter` object.
+   *
+   * @example
+   *
+   * AsyncIter.range(1, 10).inspect(console.log) // AsyncIter<number> { ... }
+   *
+   * @param inspector A function to inspect every entry of the `AsyncIter` object.
+   * @returns A new `AsyncIter` with the entries of the original `AsyncIter`.
+   */
+  inspect(inspector: (item: A) => Awaitable<void>) {
+    const context = this
+    const factory = async function* () {
+      for await (const item of context.factory()) {
+        await inspector(item)
+        yield item
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.all
+   *
+   * Utility method to check if all of the entries of an `AsyncIter` object
+   * matches a predicate.
+   *
+   * @example
+   *
+   * await AsyncIter.range(0, 5).all(async x => x < 10) // true
+   *
+   * @param predicate A predicate function to filter the `AsyncIter` entry.
+   * @param options A signal to abort the iteration with.
+   * @returns A promise of a boolean value indicating weather all entries
+   * matches the predicate.
+   */
+  async all(
+    predicate: (item: A) => Awaitable<boolean>,
+    { signal }: SignalOptions = {}
+  ) {
+    let result = true
+
+    await this.each(async (item) => {
+      if (!(await predicate(item))) {
+        result = false
+        return STOP
+      }
+    }, signal)
+
+    return result
+  }
+
+  /**
+   * # AsyncIter.any
+   *
+   * Utility method to check if any entry of an `AsyncIter` object matches a
+   * predicate.
+   *
+   * @example
+   *
+   * await AsyncIter.range(0, 5).any(async x => x % 2 === 0) // true
+   *
+   * @param predicate Predicate function to filter the `AsyncIter` entry.
+   * @param options A signal to abort the iteration with.
+   * @returns A promise of a boolean value indicating if any of the entries
+   * matches the predicate.
+   */
+  async any(
+    predicate: (item: A) => Awaitable<boolean>,
+    { signal }: SignalOptions = {}
+  ) {
+    let result = false
+
+    await this.each(async (item) => {
+      if (await predicate(item)) {
+        result = true
+        return STOP
+      }
+    }, signal)
+
+    return result
+  }
+
+  /**
+   * # AsyncIter.reject
+   *
+   * Utility method to reject any entry that doesn't match the predicate function.
+   *
+   * @example
+   *
+   * AsyncIter.range(0, 5).reject(async x => x % 2 === 0) // AsyncIter<number> { ... }
+   *
+   * @param predicate A predicate function to filter the `AsyncIter` entry.
+   * @returns An `AsyncIter` that yields the values that didn't match the
+   * predicate function.
+   */
+  reject(predicate: (item: A) => Awaitable<boolean>) {
+    const context = this
+    const factory = async function* () {
+      for await (const item of context.factory()) {
+        if (!(await predicate(item))) {
+          yield item
+        }
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.parseNdjson
+   *
+   * Utility method to parse an `AsyncIter` object of text chunks, such as a
+   * decoded stream, as newline-delimited JSON, one value per line. Values
+   * split across chunks are put back together, and blank lines are skipped.
+   * A line that isn't valid JSON throws a `ParseError`.
+   *
+   * @example
+   *
+   * lines.parseNdjson<Event>() // AsyncIter<Event> { ... }
+   *
+   * @returns A new `AsyncIter` containing the parsed values.
+   */
+  parseNdjson<T = unknown>(this: AsyncIter<string>) {
+    const context = this
+    const factory = async function* () {
+      const parser = new NdjsonParser()
+
+      for await (const chunk of context.factory()) {
+        yield* parser.push(chunk) as T[]
+      }
+
+      yield* parser.flush() as T[]
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.parseCsv
+   *
+   * Utility method to parse an `AsyncIter` object of text chunks as CSV, with
+   * the same rules as `Iter.parseCsv`.
+   *
+   * @example
+   *
+   * chunks.parseCsv() // AsyncIter<CsvRecord> { ... }
+   * chunks.parseCsv({ header: false, delimiter: ';' }) // AsyncIter<string[]> { ... }
+   *
+   * @param options The header, delimiter and quote of the CSV.
+   * @returns A new `AsyncIter` containing the parsed records.
+   */
+  parseCsv(
+    this: AsyncIter<string>,
+    options: CsvOptions & { header: false }
+  ): AsyncIter<string[]>
+  parseCsv(this: AsyncIter<string>, options?: CsvOptions): AsyncIter<CsvRecord>
+  parseCsv(this: AsyncIter<string>, options: CsvOptions = {}) {
+    const context = this
+    const checked = csvOptions(options)
+
+    const factory = async function* () {
+      const parser = new CsvParser(checked)
+
+      for await (const chunk of context.factory()) {
+        yield* parser.push(chunk)
+      }
+
+      yield* parser.flush()
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.toNdjson
+   *
+   * Utility method to serialize the entries of an `AsyncIter` object as
+   * newline-delimited JSON, one line per entry.
+   *
+   * @example
+   *
+   * AsyncIter.fromArray([{ id: 1 }]).toNdjson() // AsyncIter<string> { '{"id":1}\n' }
+   *
+   * @returns A new `AsyncIter` containing the lines.
+   */
+  toNdjson() {
+    return this.map(toNdjsonLine)
+  }
+
+  /**
+   * # AsyncIter.toCsv
+   *
+   * Utility method to serialize the entries of an `AsyncIter` object as CSV,
+   * with the same rules as `Iter.toCsv`.
+   *
+   * @example
+   *
+   * AsyncIter.fromArray([{ id: 1 }]).toCsv() // AsyncIter<string> { 'id\n', '1\n' }
+   *
+   * @param options The header, delimiter and quote of the CSV.
+   * @returns A new `AsyncIter` containing the lines.
+   */
+  toCsv(
+    this: AsyncIter<readonly unknown[] | Record<string, unknown>>,
+    options: CsvOptions = {}
+  ) {
+    const context = this
+    const checked = csvOptions(options)
+
+    const factory = async function* () {
+      const write = csvWriter(checked)
+
+      for await (const record of context.factory()) {
+        yield* write(record)
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter[Symbol.asyncIterator]
+   *
+   * Utility method to iterate over an `AsyncIter` object.
+   *
+   * @example
+   *
+   * for await (const item of AsyncIter.range(0, 5)) {
+   *  // ...
+   * }
+   *
+   * @returns An async generator object that can be used to iterate over the
+   * entries of the `AsyncIter` object.
+   */
+  [Symbol.asyncIterator]() {
+    return this.factory()
+  }
+
+  /**
+   * # AsyncIter.fromArray
+   *
+   * Utility method to create an `AsyncIter` object from an array.
+   *
+   * @example
+   *
+   * AsyncIter.fromArray([1, 2, 3]) // AsyncIter<number> { ... }
+   *
+   * @param source Source array to turn into an `AsyncIter` object
+   * @returns A new `AsyncIter` object.
+   */
+  static fromArray<T>(source: T[]) {
+    const factory = async function* () {
+      for (let i = 0; i < source.length; i++) {
+        yield source[i]
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.range
+   *
+   * Utility method to create an `AsyncIter` object from a range of numbers or
+   * bigints, see `Iter.range`.
+   *
+   * @example
+   *
+   * AsyncIter.range(1, 10) // AsyncIter<number> { ... }
+   *
+   * @param start Start value of the range
+   * @param end End value of the range
+   * @param interval Optional interval of every step in the range
+   * @param options Whether `end` is included in the range
+   * @returns A new `AsyncIter` object.
+   */
+  static range(
+    start: number,
+    end: number,
+    interval?: number,
+    options?: RangeOptions
+  ): AsyncIter<number>
+  static range(
+    start: number,
+    end: number,
+    options: RangeOptions
+  ): AsyncIter<number>
+  static range(
+    start: bigint,
+    end: bigint,
+    interval?: bigint,
+    options?: RangeOptions
+  ): AsyncIter<bigint>
+  static range(
+    start: bigint,
+    end: bigint,
+    options: RangeOptions
+  ): AsyncIter<bigint>
+  static range<T extends number | bigint>(
+    start: T,
+    end: T,
+    interval?: T | RangeOptions,
+    options?: RangeOptions
+  ) {
+    return AsyncIter.fromIterable(createRange(start, end, interval, options))
+  }
+
+  /**
+   * # AsyncIter.repeat
+   *
+   * Utility method to create an `AsyncIter` object with `n` repetitions of a
+   * given item.
+   *
+   * @example
+   *
+   * AsyncIter.repeat(1, 5) // AsyncIter<number> { ... }
+   *
+   * @param item Item to repeat in the `AsyncIter` object.
+   * @param repetitions Number of repetitions of the item.
+   * @returns A new `AsyncIter` object.
+   */
+  static repeat<T>(item: T, repetitions: number) {
+    const factory = async function* () {
+      for (let i = 0; i < repetitions; i++) {
+        yield item
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.fromIterable
+   *
+   * Utility method to create an `AsyncIter` object from a synchronous
+   * iterable, such as an `Iter`, a `Set` or a string.
+   *
+   * @example
+   *
+   * AsyncIter.fromIterable('What?') // AsyncIter<string> { ... }
+   *
+   * @param source Source iterable to turn into an `AsyncIter` object
+   * @returns A new `AsyncIter` object.
+   */
+  static fromIterable<A>(source: Iterable<A>) {
+    const factory = async function* () {
+      for (const item of source) {
+        yield item
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.fromGenerator
+   *
+   * Utility method to create an `AsyncIter` object from a synchronous
+   * generator.
+   *
+   * @example
+   *
+   * const generator = function* () {
+   *  yield 1
+   * }
+   *
+   * AsyncIter.fromGenerator(generator) // AsyncIter<number> { ... }
+   *
+   * @param factory A factory function that creates a generator object.
+   * @returns A new `AsyncIter` object.
+   */
+  static fromGenerator<A>(factory: () => Generator<A>) {
+    return AsyncIter.fromIterable({ [Symbol.iterator]: factory })
+  }
+
+  /**
+   * # AsyncIter.fromAsyncGenerator
+   *
+   * Utility method to create an `AsyncIter` object from an async generator.
+   *
+   * @example
+   *
+   * const generator = async function* () {
+   *  yield 1
+   * }
+   *
+   * AsyncIter.fromAsyncGenerator(generator) // AsyncIter<number> { ... }
+   *
+   * @param factory A factory function that creates an async generator object.
+   * @returns A new `AsyncIter` object.
+   */
+  static fromAsyncGenerator<A>(factory: () => AsyncGenerator<A>) {
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.fromAsyncIterable
+   *
+   * Utility method to create an `AsyncIter` object from an async iterable,
+   * such as a Node.js stream or a paginated API client.
+   *
+   * @example
+   *
+   * AsyncIter.fromAsyncIterable(fs.createReadStream('file.txt')) // AsyncIter<any> { ... }
+   *
+   * @param source Source async iterable to turn into an `AsyncIter` object
+   * @returns A new `AsyncIter` object.
+   */
+  static fromAsyncIterable<A>(source: AsyncIterable<A>) {
+    const factory = async function* () {
+      for await (const item of source) {
+        yield item
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.interval
+   *
+   * Utility method to create an endless `AsyncIter` object yielding `0`,
+   * `1`, `2`... every `ms` milliseconds. The ticks are scheduled from the
+   * start time, so they don't drift.
+   *
+   * @example
+   *
+   * AsyncIter.interval(1000).take(3) // AsyncIter<number> { 0, 1, 2 }
+   *
+   * @param ms Time between two ticks, in milliseconds.
+   * @param options The scheduler to create the timers with.
+   * @returns A new `AsyncIter` object.
+   */
+  static interval(
+    ms: number,
+    { scheduler = defaultScheduler }: TimeOptions = {}
+  ) {
+    assertDuration('ms', ms)
+
+    const factory = async function* () {
+      const start = scheduler.now()
+
+      for (let i = 0; ; i++) {
+        const wait = start + (i + 1) * ms - scheduler.now()
+        await timer(scheduler, Math.max(wait, 0)).promise
+        yield i
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+
+  /**
+   * # AsyncIter.fromPromises
+   *
+   * Utility method to create an `AsyncIter` object from an iterable of
+   * promises, yielding their resolved values in order.
+   *
+   * @example
+   *
+   * AsyncIter.fromPromises([fetchUser(1), fetchUser(2)]) // AsyncIter<User> { ... }
+   *
+   * @param promises An iterable of promises to be awaited.
+   * @returns A new `AsyncIter` object.
+   */
+  static fromPromises<A>(promises: Iterable<Awaitable<A>>) {
+    const factory = async function* (): AsyncGenerator<A> {
+      for (const promise of promises) {
+        yield await promise
+      }
+    }
+
+    return new AsyncIter(factory)
+  }
+}
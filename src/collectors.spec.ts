@@ -0,0 +1,84 @@
+import Iter, { Collector, Collectors } from './index'
+
+describe('Collectors', () => {
+  const words = Iter.fromArray(['a', 'bb', 'a', 'ccc'])
+
+  it('should collect into arrays, sets, maps and objects', () => {
+    expect(words.collectInto(Collectors.toArray())).toEqual([
+      'a',
+      'bb',
+      'a',
+      'ccc',
+    ])
+    expect(words.collectInto(Collectors.toSet())).toEqual(
+      new Set(['a', 'bb', 'ccc'])
+    )
+    expect(
+      words.collectInto(
+        Collectors.toMap(
+          (x) => x,
+          (x) => x.length
+        )
+      )
+    ).toEqual(
+      new Map([
+        ['a', 1],
+        ['bb', 2],
+        ['ccc', 3],
+      ])
+    )
+    expect(
+      words.collectInto(
+        Collectors.toObject(
+          (x) => x,
+          (x) => x.length
+        )
+      )
+    ).toEqual({ a: 1, bb: 2, ccc: 3 })
+  })
+
+  it('should keep a __proto__ key as an own property', () => {
+    const entries: [string, object][] = [['__proto__', { polluted: 1 }]]
+    const result = Iter.fromArray(entries).toObject()
+
+    expect(Object.keys(result)).toEqual(['__proto__'])
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+
+  it('should join, count and sum the entries', () => {
+    expect(words.collectInto(Collectors.joining('|'))).toBe('a|bb|a|ccc')
+    expect(words.collectInto(Collectors.counting())).toBe(4)
+    expect(words.collectInto(Collectors.summing((x) => x.length))).toBe(7)
+    expect(Iter.range(0, 5).collectInto(Collectors.summing())).toBe(10)
+  })
+
+  it('should run many collectors in a single pass', () => {
+    const spy = jest.fn()
+    const [count, unique, total]: [number, Set<string>, number] = words
+      .inspect(spy)
+      .collectInto(
+        Collectors.tee(
+          Collectors.counting(),
+          Collectors.toSet<string>(),
+          Collectors.summing<string>((x) => x.length)
+        )
+      )
+
+    expect(count).toBe(4)
+    expect(unique.size).toBe(3)
+    expect(total).toBe(7)
+    expect(spy).toHaveBeenCalledTimes(4)
+  })
+
+  it('should accept custom collectors and start fresh on every run', () => {
+    const longest: Collector<string, string, number> = {
+      supplier: () => '',
+      accumulator: (acc, item) => (item.length > acc.length ? item : acc),
+      finisher: (acc) => acc.length,
+    }
+
+    expect(words.collectInto(longest)).toBe(3)
+    expect(words.collectInto(longest)).toBe(3)
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * # Collector
+ *
+ * A reusable aggregation of entries, run by `Iter.collectInto`. A fresh
+ * accumulator is created for every run, folded over the entries, then turned
+ * into the result.
+ *
+ * @example
+ *
+ * const longest: Collector<string, string, number> = {
+ *   supplier: () => '',
+ *   accumulator: (acc, item) => (item.length > acc.length ? item : acc),
+ *   finisher: (acc) => acc.length,
+ * }
+ *
+ * Iter.fromArray(['a', 'abc', 'ab']).collectInto(longest) // number { 3 }
+ */
+export interface Collector<A, Acc, R> {
+  /**
+   * Creates the initial accumulator.
+   */
+  supplier(): Acc
+  /**
+   * Folds an entry into the accumulator.
+   *
+   * @returns The updated accumulator.
+   */
+  accumulator(acc: Acc, item: A): Acc
+  /**
+   * Turns the accumulator into the result.
+   */
+  finisher(acc: Acc): R
+}
+
+const identity = <T>(item: T) => item
+
+/**
+ * Collects the entries into an array.
+ */
+const toArray = <A>(): Collector<A, A[], A[]> => ({
+  supplier: () => [],
+  accumulator: (acc, item) => {
+    acc.push(item)
+    return acc
+  },
+  finisher: identity,
+})
+
+/**
+ * Collects the entries into a `Set`.
+ */
+const toSet = <A>(): Collector<A, Set<A>, Set<A>> => ({
+  supplier: () => new Set(),
+  accumulator: (acc, item) => acc.add(item),
+  finisher: identity,
+})
+
+/**
+ * Collects the entries into a `Map`, the last entry winning on duplicate
+ * keys.
+ *
+ * @param keyFn A function returning the key of an entry.
+ * @param valueFn A function returning the value of an entry.
+ */
+const toMap = <A, K, V>(
+  keyFn: (item: A) => K,
+  valueFn: (item: A) => V
+): Collector<A, Map<K, V>, Map<K, V>> => ({
+  supplier: () => new Map(),
+  accumulator: (acc, item) => acc.set(keyFn(item), valueFn(item)),
+  finisher: identity,
+})
+
+/**
+ * Collects the entries into a plain object, the last entry winning on
+ * duplicate keys.
+ *
+ * @param keyFn A function returning the key of an entry.
+ * @param valueFn A function returning the value of an entry.
+ */
+const toObject = <A, K extends PropertyKey, V>(
+  keyFn: (item: A) => K,
+  valueFn: (item: A) => V
+): Collector<A, Record<K, V>, Record<K, V>> => ({
+  supplier: () => ({} as Record<K, V>),
+  accumulator: (acc, item) => {
+    // Defined rather than assigned, so a `__proto__` key stays an own key.
+    return Object.defineProperty(acc, keyFn(item), {
+      value: valueFn(item),
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    })
+  },
+  finisher: identity,
+})
+
+/**
+ * Joins the entries into a string, as `Array.prototype.join` does.
+ *
+ * @param separator The string between two entries, `','` by default.
+ */
+const joining = <A>(separator = ','): Collector<A, A[], string> => ({
+  ...toArray<A>(),
+  finisher: (acc) => acc.join(separator),
+})
+
+/**
+ * Counts the entries.
+ */
+const counting = <A>(): Collector<A, number, number> => ({
+  supplier: () => 0,
+  accumulator: (acc) => acc + 1,
+  finisher: identity,
+})
+
+/**
+ * Sums the entries, or the numbers returned by `valueFn` for every entry.
+ *
+ * @param valueFn A function returning the number to add for an entry.
+ */
+const summing = <A>(
+  valueFn: (item: A) => number = Number
+): Collector<A, number, number> => ({
+  supplier: () => 0,
+  accumulator: (acc, item) => acc + valueFn(item),
+  finisher: identity,
+})
+
+/**
+ * Runs many collectors over the same entries in a single pass.
+ *
+ * @param collectors The collectors to run.
+ * @returns A collector producing a tuple with the result of every collector.
+ */
+const tee = <A, R extends unknown[]>(
+  ...collectors: { [K in keyof R]: Collector<A, unknown, R[K]> }
+): Collector<A, unknown[], R> => ({
+  supplier: () => collectors.map((collector) => collector.supplier()),
+  accumulator: (acc, item) => {
+    for (let i = 0; i < collectors.length; i++) {
+      acc[i] = collectors[i].accumulator(acc[i], item)
+    }
+
+    return acc
+  },
+  finisher: (acc) =>
+    collectors.map((collector, i) => collector.finisher(acc[i])) as R,
+})
+
+/**
+ * # Collectors
+ *
+ * Built-in collectors, to be run by `Iter.collectInto`.
+ *
+ * @example
+ *
+ * const [count, unique] = Iter.fromArray(['a', 'b', 'a']).collectInto(
+ *   Collectors.tee(Collectors.counting(), Collectors.toSet())
+ * ) // [number, Set<string>] [3, Set { 'a', 'b' }]
+ */
+export const Collectors = {
+  toArray,
+  toSet,
+  toMap,
+  toObject,
+  joining,
+  counting,
+  summing,
+  tee,
+}
@@ -0,0 +1,94 @@
+/**
+ * # ConsumedIterableError
+ *
+ * Error thrown when a one-shot source, such as a generator object or the
+ * result of `map.entries()`, is iterated again after being consumed.
+ */
+export class ConsumedIterableError extends Error {
+  constructor(message = 'Iter: one-shot source has already been consumed') {
+    super(message)
+    this.name = 'ConsumedIterableError'
+  }
+}
+
+/**
+ * # DuplicateKeyError
+ *
+ * Error thrown by `Iter.keyBy` when two entries share the same key and the
+ * duplicate policy is `'error'`.
+ */
+export class DuplicateKeyError extends Error {
+  constructor(readonly key: unknown) {
+    super(`Iter.keyBy: duplicate key ${String(key)}`)
+    this.name = 'DuplicateKeyError'
+  }
+}
+
+/**
+ * # IterOperatorError
+ *
+ * Error thrown by `Iter.context` when a step of the pipeline before it
+ * throws, recording the label of the step and the index of the entry being
+ * produced. The original error is kept as `original`, which unlike the
+ * standard `cause` may be any thrown value.
+ */
+export class IterOperatorError extends Error {
+  constructor(
+    readonly operator: string,
+    readonly index: number,
+    readonly original: unknown
+  ) {
+    super(
+      `Iter: "${operator}" failed at entry ${index}: ${
+        original instanceof Error ? original.message : String(original)
+      }`
+    )
+    this.name = 'IterOperatorError'
+  }
+}
+
+/**
+ * # TimeoutError
+ *
+ * Error thrown by `AsyncIter.timeout` when the next entry takes longer than
+ * the allowed duration to arrive.
+ */
+export class TimeoutError extends Error {
+  constructor(readonly ms: number) {
+    super(`AsyncIter.timeout: no entry received within ${ms}ms`)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * # AbortError
+ *
+ * Error thrown by the terminal methods of `Iter` and `AsyncIter` when their
+ * `AbortSignal` is aborted. The reason given to `AbortController.abort` is
+ * kept as `reason`.
+ */
+export class AbortError extends Error {
+  constructor(readonly reason?: unknown) {
+    super('Iter: the operation was aborted')
+    this.name = 'AbortError'
+  }
+}
+
+/**
+ * # ParseError
+ *
+ * Error thrown by the CSV and NDJSON parsers of `Iter` and `AsyncIter` when
+ * a record is malformed, recording its row number and the line it starts on,
+ * both counted from `1`. The original error, if any, is kept as `original`.
+ */
+export class ParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly row: number,
+    readonly line: number,
+    readonly original?: unknown
+  ) {
+    super(`Iter: ${reason} at row ${row} (line ${line})`)
+    this.name = 'ParseError'
+  }
+}
@@ -0,0 +1,117 @@
+import { ParseError } from './errors'
+import { csvOptions, CsvParser, csvWriter, NdjsonParser } from './formats'
+
+const parseAll = (parser: CsvParser | NdjsonParser, chunks: string[]) => [
+  ...chunks.flatMap((chunk) => parser.push(chunk)),
+  ...parser.flush(),
+]
+
+const parseError = (run: () => unknown) => {
+  try {
+    run()
+  } catch (error) {
+    return error as ParseError
+  }
+
+  throw new Error('expected a ParseError')
+}
+
+describe('CsvParser', () => {
+  it('should parse records split across chunks', () => {
+    const parser = new CsvParser(csvOptions({ header: false }))
+
+    expect(parser.push('a,b')).toEqual([])
+    expect(parser.push('\r\nc,')).toEqual([['a', 'b']])
+    expect(parser.flush()).toEqual([['c', '']])
+  })
+
+  it('should parse quoted fields', () => {
+    const parser = new CsvParser(csvOptions({ header: false }))
+    const chunks = ['"a,1","b\n', '2","say ""', 'hi"""', ',""\n']
+
+    expect(parseAll(parser, chunks)).toEqual([['a,1', 'b\n2', 'say "hi"', '']])
+  })
+
+  it('should key records by the header and skip empty lines', () => {
+    const parser = new CsvParser(csvOptions({ delimiter: ';' }))
+
+    expect(parseAll(parser, ['id;name\n\n1;a\n', '\n2;b'])).toEqual([
+      { id: '1', name: 'a' },
+      { id: '2', name: 'b' },
+    ])
+  })
+
+  it('should use the given column names', () => {
+    const parser = new CsvParser(csvOptions({ header: ['x', 'y'], quote: "'" }))
+
+    expect(parseAll(parser, ["1,'2,3'"])).toEqual([{ x: '1', y: '2,3' }])
+  })
+
+  it('should report the row and line of malformed records', () => {
+    const mismatch = parseError(() =>
+      parseAll(new CsvParser(), ['a,b\n"1\n2",3\n4\n'])
+    )
+    const unterminated = parseError(() =>
+      parseAll(new CsvParser(csvOptions({ header: false })), ['a\n\n"b\n'])
+    )
+    const stray = parseError(() =>
+      parseAll(new CsvParser(csvOptions({ header: false })), ['"a"b\n'])
+    )
+
+    expect(mismatch).toBeInstanceOf(ParseError)
+    expect([mismatch.row, mismatch.line]).toEqual([3, 4])
+    expect(mismatch.message).toBe(
+      'Iter: expected 2 fields, got 1 at row 3 (line 4)'
+    )
+    expect([unterminated.row, unterminated.line]).toEqual([2, 3])
+    expect([stray.row, stray.line]).toEqual([1, 1])
+  })
+
+  it('should keep a __proto__ column as a field', () => {
+    const [record] = new CsvParser().push('__proto__,b\n1,2\n')
+
+    expect(Object.keys(record)).toEqual(['__proto__', 'b'])
+    expect(Object.getPrototypeOf(record)).toBe(Object.prototype)
+  })
+
+  it('should reject invalid options', () => {
+    expect(() => csvOptions({ delimiter: '::' })).toThrow(RangeError)
+    expect(() => csvOptions({ quote: ',' })).toThrow(RangeError)
+  })
+})
+
+describe('NdjsonParser', () => {
+  it('should parse values split across chunks and skip blank lines', () => {
+    const parser = new NdjsonParser()
+
+    expect(parseAll(parser, ['{"a":1}\n\n[', '2]\r\n', ' 3 '])).toEqual([
+      { a: 1 },
+      [2],
+      3,
+    ])
+  })
+
+  it('should report the row and line of invalid JSON', () => {
+    const error = parseError(() => parseAll(new NdjsonParser(), ['1\n\n{\n']))
+
+    expect(error).toBeInstanceOf(ParseError)
+    expect([error.row, error.line]).toEqual([2, 3])
+    expect(error.original).toBeInstanceOf(SyntaxError)
+  })
+})
+
+describe('csvWriter', () => {
+  it('should write a header line from the keys of the first record', () => {
+    const write = csvWriter()
+
+    expect(write({ a: 1, b: 'x,y' })).toEqual(['a,b\n', '1,"x,y"\n'])
+    expect(write({ b: 'say "hi"', a: null })).toEqual([',"say ""hi"""\n'])
+  })
+
+  it('should write arrays, with the given header if any', () => {
+    const write = csvWriter(csvOptions({ header: ['x', 'y'], delimiter: '\t' }))
+
+    expect(write([1, 'a\nb'])).toEqual(['x\ty\n', '1\t"a\nb"\n'])
+    expect(csvWriter(csvOptions({ header: false }))({ a: 1 })).toEqual(['1\n'])
+  })
+})
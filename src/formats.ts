@@ -0,0 +1,349 @@
+import { ParseError } from './errors'
+import { LineSplitter } from './text'
+
+/**
+ * Options for `Iter.parseCsv` and `Iter.toCsv`.
+ */
+export type CsvOptions = {
+  /**
+   * Whether the first row holds the column names, or the column names
+   * themselves. Records are read and written as objects keyed by column
+   * name, unless `header` is `false`. Defaults to `true`.
+   */
+  header?: boolean | readonly string[]
+  /**
+   * Character between two fields. Defaults to `','`.
+   */
+  delimiter?: string
+  /**
+   * Character wrapping fields that contain delimiters, quotes or line
+   * breaks. Defaults to `'"'`.
+   */
+  quote?: string
+}
+
+/**
+ * A CSV record, keyed by column name.
+ */
+export type CsvRecord = Record<string, string>
+
+const assertCharacter = (name: string, value: string) => {
+  if (value.length !== 1) {
+    throw new RangeError(`${name} must be a single character, got "${value}"`)
+  }
+}
+
+/**
+ * CSV options checked by `csvOptions`, with their defaults filled in.
+ */
+export type CsvSettings = Required<CsvOptions>
+
+/**
+ * Checks the options of a CSV operator, filling in the defaults.
+ *
+ * @param options The CSV options.
+ * @returns The options with their defaults.
+ */
+export const csvOptions = ({
+  header = true,
+  delimiter = ',',
+  quote = '"',
+}: CsvOptions): CsvSettings => {
+  assertCharacter('delimiter', delimiter)
+  assertCharacter('quote', quote)
+
+  if (delimiter === quote || delimiter === '\n' || quote === '\n') {
+    throw new RangeError('delimiter and quote must differ, and not be \\n')
+  }
+
+  return { header, delimiter, quote }
+}
+
+/**
+ * # CsvParser
+ *
+ * Parses CSV text arriving in chunks, keeping the unfinished record of a
+ * chunk until the next one arrives. Records end with `\n` or `\r\n`, quoted
+ * fields may contain line breaks, and empty lines are skipped.
+ *
+ * @example
+ *
+ * const parser = new CsvParser(csvOptions({ header: false }))
+ *
+ * parser.push('a,"b\n') // []
+ * parser.push('c"\n') // [['a', 'b\nc']]
+ * parser.flush() // []
+ */
+export class CsvParser {
+  private delimiter: string
+  private quote: string
+  private columns?: readonly string[]
+  private useHeader: boolean
+  private fields: string[] = []
+  private field = ''
+  private state: 'field' | 'unquoted' | 'quoted' | 'closed' = 'field'
+  private line = 1
+  private row = 1
+  private start = 1
+
+  constructor({ header, delimiter, quote }: CsvSettings = csvOptions({})) {
+    this.delimiter = delimiter
+    this.quote = quote
+    this.useHeader = header !== false
+    this.columns = Array.isArray(header) ? header : undefined
+  }
+
+  /**
+   * Adds a chunk of text.
+   *
+   * @returns The records completed by the chunk.
+   */
+  push(chunk: string): (string[] | CsvRecord)[] {
+    const records: (string[] | CsvRecord)[] = []
+
+    for (const char of chunk) {
+      if (this.state === 'quoted') {
+        if (char === this.quote) {
+          this.state = 'closed'
+        } else {
+          this.line += char === '\n' ? 1 : 0
+          this.field += char
+        }
+      } else if (char === this.quote && this.state !== 'unquoted') {
+        if (this.state === 'closed') {
+          this.field += char
+        }
+
+        this.state = 'quoted'
+      } else if (char === this.delimiter) {
+        this.endField()
+      } else if (char === '\n') {
+        const record = this.endRecord()
+        this.line++
+
+        if (record) {
+          records.push(record)
+        }
+      } else if (char !== '\r') {
+        if (this.state === 'closed') {
+          throw this.error(`unexpected "${char}" after a quoted field`)
+        }
+
+        this.state = 'unquoted'
+        this.field += char
+      }
+    }
+
+    return records
+  }
+
+  /**
+   * Signals that no more text will arrive.
+   *
+   * @returns The last record, if the text doesn't end with a line break.
+   */
+  flush(): (string[] | CsvRecord)[] {
+    if (this.state === 'quoted') {
+      throw this.error('unterminated quoted field')
+    }
+
+    const record = this.endRecord()
+    return record ? [record] : []
+  }
+
+  private endField() {
+    this.fields.push(this.field)
+    this.field = ''
+    this.state = 'field'
+  }
+
+  private endRecord() {
+    const empty = this.fields.length === 0 && this.state === 'field'
+
+    if (empty) {
+      this.start = this.line + 1
+      return undefined
+    }
+
+    this.endField()
+
+    const fields = this.fields
+    this.fields = []
+
+    const record = this.toRecord(fields)
+    this.row++
+    this.start = this.line + 1
+
+    return record
+  }
+
+  private toRecord(fields: string[]) {
+    if (!this.useHeader) {
+      return fields
+    }
+
+    if (!this.columns) {
+      this.columns = fields
+      return undefined
+    }
+
+    if (fields.length !== this.columns.length) {
+      throw this.error(
+        `expected ${this.columns.length} fields, got ${fields.length}`
+      )
+    }
+
+    const record: CsvRecord = {}
+
+    for (let i = 0; i < fields.length; i++) {
+      // Defined rather than assigned, so a `__proto__` column stays a field.
+      Object.defineProperty(record, this.columns[i], {
+        value: fields[i],
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      })
+    }
+
+    return record
+  }
+
+  private error(reason: string) {
+    return new ParseError(reason, this.row, this.start)
+  }
+}
+
+/**
+ * # NdjsonParser
+ *
+ * Parses newline-delimited JSON arriving in chunks, one value per line.
+ * Blank lines are skipped.
+ *
+ * @example
+ *
+ * const parser = new NdjsonParser()
+ *
+ * parser.push('{"a":1}\n{"a"') // [{ a: 1 }]
+ * parser.push(':2}') // []
+ * parser.flush() // [{ a: 2 }]
+ */
+export class NdjsonParser {
+  private splitter = new LineSplitter()
+  private line = 0
+  private row = 0
+
+  /**
+   * Adds a chunk of text.
+   *
+   * @returns The values completed by the chunk.
+   */
+  push(chunk: string): unknown[] {
+    return this.parse(this.splitter.push(chunk))
+  }
+
+  /**
+   * Signals that no more text will arrive.
+   *
+   * @returns The last value, if the text doesn't end with a line break.
+   */
+  flush(): unknown[] {
+    return this.parse(this.splitter.flush())
+  }
+
+  private parse(lines: string[]) {
+    const values: unknown[] = []
+
+    for (const line of lines) {
+      this.line++
+
+      if (line.trim() === '') {
+        continue
+      }
+
+      this.row++
+
+      try {
+        values.push(JSON.parse(line))
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        throw new ParseError(
+          `invalid JSON: ${reason}`,
+          this.row,
+          this.line,
+          error
+        )
+      }
+    }
+
+    return values
+  }
+}
+
+/**
+ * Serializes an entry into a line of NDJSON.
+ */
+export const toNdjsonLine = (item: unknown) => {
+  const json = JSON.stringify(item)
+
+  if (json === undefined) {
+    throw new TypeError(`${String(item)} can't be serialized to JSON`)
+  }
+
+  return json + '\n'
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[\\^$.*+?()[\]{}|-]/g, '\\$&')
+
+/**
+ * Serializes records into lines of CSV, one call per record. The columns of
+ * object records are the `header` option, or the keys of the first record.
+ *
+ * @param settings The CSV options, checked by `csvOptions`.
+ * @returns A function returning the lines for a record, the header line
+ * included for the first one.
+ */
+export const csvWriter = (
+  { header, delimiter, quote }: CsvSettings = csvOptions({})
+) => {
+  const special = new RegExp(
+    `[${escapeRegExp(delimiter)}${escapeRegExp(quote)}\\r\\n]`
+  )
+  const doubled = new RegExp(escapeRegExp(quote), 'g')
+  let columns = Array.isArray(header) ? header : undefined
+  let first = true
+
+  const format = (fields: readonly unknown[]) =>
+    fields
+      .map((field) => {
+        const text = field === null || field === undefined ? '' : String(field)
+
+        return special.test(text)
+          ? quote + text.replace(doubled, quote + quote) + quote
+          : text
+      })
+      .join(delimiter) + '\n'
+
+  return (record: readonly unknown[] | Record<string, unknown>) => {
+    const lines: string[] = []
+
+    if (!Array.isArray(record)) {
+      columns ??= Object.keys(record)
+    }
+
+    if (first && header !== false && columns) {
+      lines.push(format(columns))
+    }
+
+    first = false
+
+    if (Array.isArray(record)) {
+      lines.push(format(record))
+    } else {
+      const object = record as Record<string, unknown>
+      lines.push(format((columns as string[]).map((column) => object[column])))
+    }
+
+    return lines
+  }
+}
@@ -0,0 +1,116 @@
+import { drain, fuse, Fusion, FusedIterator, SKIP } from './fusion'
+
+describe('Fusion', () => {
+  const array: Fusion<number> = { source: { kind: 'array', array: [1, 2, 3] } }
+
+  describe('fuse()', () => {
+    it('should compose the stages in order', () => {
+      const fusion = fuse(
+        fuse(array, (x) => x * 2),
+        (x) => (x > 2 ? x : SKIP)
+      )
+
+      expect([...new FusedIterator(fusion)]).toEqual([4, 6])
+    })
+
+    it('should not run the following stages on skipped entries', () => {
+      const spy = jest.fn((x: number) => x)
+      const fusion = fuse(
+        fuse(array, (x) => (x === 2 ? SKIP : x)),
+        spy
+      )
+
+      drain(fusion, () => {})
+      expect(spy).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('FusedIterator', () => {
+    let cleanup: jest.Mock
+    let fusion: Fusion<number>
+
+    beforeEach(() => {
+      cleanup = jest.fn()
+      fusion = {
+        source: {
+          kind: 'iterator',
+          factory: function* () {
+            try {
+              yield* [1, 2, 3]
+            } finally {
+              cleanup()
+            }
+          },
+        },
+      }
+    })
+
+    it('should iterate over the source', () => {
+      expect([...new FusedIterator(fusion)]).toEqual([1, 2, 3])
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('should close the source when returning early', () => {
+      const iterator = new FusedIterator(fusion)
+      expect(iterator.next()).toEqual({ value: 1, done: false })
+      expect(iterator.return()).toEqual({ value: undefined, done: true })
+      expect(iterator.next()).toEqual({ value: undefined, done: true })
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('should close the source when an error is thrown into it', () => {
+      const iterator = new FusedIterator(fusion)
+      iterator.next()
+      expect(() => iterator.throw(new Error('Boom'))).toThrow('Boom')
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('should close the source when a stage throws', () => {
+      const iterator = new FusedIterator(
+        fuse(fusion, () => {
+          throw new Error('Boom')
+        })
+      )
+
+      expect(() => iterator.next()).toThrow('Boom')
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('drain()', () => {
+    it('should read arrays without the iterator protocol', () => {
+      const source = [1, 2, 3]
+      source[Symbol.iterator] = jest.fn()
+
+      const result: number[] = []
+      drain<number>({ source: { kind: 'array', array: source } }, (x) =>
+        result.push(x)
+      )
+      expect(result).toEqual([1, 2, 3])
+      expect(source[Symbol.iterator]).not.toHaveBeenCalled()
+    })
+
+    it('should close the source when the callback throws', () => {
+      const cleanup = jest.fn()
+      const fusion: Fusion<number> = {
+        source: {
+          kind: 'iterator',
+          factory: function* () {
+            try {
+              yield 1
+            } finally {
+              cleanup()
+            }
+          },
+        },
+      }
+
+      expect(() =>
+        drain(fusion, () => {
+          throw new Error('Boom')
+        })
+      ).toThrow('Boom')
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Sentinel returned by a stage to drop the current entry.
+ */
+export const SKIP: unique symbol = Symbol('skip')
+
+/**
+ * A stateless step of a pipeline, mapping an entry to a new one or to `SKIP`.
+ */
+export type Stage<A, B> = (item: A) => B | typeof SKIP
+
+/**
+ * Where the entries of a fused pipeline come from. Arrays are read by index,
+ * skipping the iterator protocol altogether.
+ */
+export type Source<T> =
+  | { kind: 'array'; array: readonly T[] }
+  | { kind: 'iterator'; factory: () => Iterator<T> }
+
+/**
+ * # Fusion
+ *
+ * A source followed by a chain of stateless stages, which are composed into a
+ * single function so the whole chain runs in one loop instead of one
+ * generator per operator.
+ */
+export type Fusion<A> = {
+  source: Source<unknown>
+  stage?: Stage<unknown, A>
+}
+
+/**
+ * Appends a stage to a fusion, composing it with the existing ones.
+ *
+ * @param fusion The fusion to extend.
+ * @param stage The stage to append.
+ * @returns A new fusion, the original one is left untouched.
+ */
+export const fuse = <A, B>(
+  fusion: Fusion<A>,
+  stage: Stage<A, B>
+): Fusion<B> => {
+  const previous = fusion.stage
+
+  if (!previous) {
+    return { source: fusion.source, stage: stage as Stage<unknown, B> }
+  }
+
+  return {
+    source: fusion.source,
+    stage: (item) => {
+      const result = previous(item)
+      return result === SKIP ? SKIP : stage(result)
+    },
+  }
+}
+
+/**
+ * # FusedIterator
+ *
+ * Plain `next()`-protocol iterator running a fusion. It behaves as a
+ * generator object: returning early or throwing closes the source, and so
+ * does a stage throwing an error.
+ */
+export class FusedIterator<A> implements Generator<A> {
+  private iterator?: Iterator<unknown>
+  private index = 0
+  private done = false
+
+  constructor(private fusion: Fusion<A>) {}
+
+  next(): IteratorResult<A> {
+    const { source, stage } = this.fusion
+
+    while (!this.done) {
+      let item: unknown
+
+      if (source.kind === 'array') {
+        if (this.index >= source.array.length) {
+          break
+        }
+
+        item = source.array[this.index++]
+      } else {
+        this.iterator ??= source.factory()
+        const next = this.iterator.next()
+
+        if (next.done) {
+          break
+        }
+
+        item = next.value
+      }
+
+      if (!stage) {
+        return { value: item as A, done: false }
+      }
+
+      let result: A | typeof SKIP
+
+      try {
+        result = stage(item)
+      } catch (error) {
+        this.close()
+        throw error
+      }
+
+      if (result !== SKIP) {
+        return { value: result, done: false }
+      }
+    }
+
+    this.done = true
+    return { value: undefined, done: true }
+  }
+
+  return(value?: unknown): IteratorResult<A> {
+    this.close()
+    return { value, done: true }
+  }
+
+  throw(error: unknown): IteratorResult<A> {
+    this.close()
+    throw error
+  }
+
+  [Symbol.iterator]() {
+    return this
+  }
+
+  private close() {
+    if (!this.done) {
+      this.done = true
+      this.iterator?.return?.()
+    }
+  }
+}
+
+/**
+ * Runs a fusion to completion, calling `callback` for every entry. Arrays are
+ * read in a plain loop, and the source is closed if `callback` throws.
+ *
+ * @param fusion The fusion to run.
+ * @param callback A function called with every entry.
+ */
+export const drain = <A>(fusion: Fusion<A>, callback: (item: A) => void) => {
+  const { source, stage } = fusion
+
+  if (source.kind === 'array') {
+    const { array } = source
+
+    for (let i = 0; i < array.length; i++) {
+      const result = stage ? stage(array[i]) : (array[i] as A)
+
+      if (result !== SKIP) {
+        callback(result)
+      }
+    }
+
+    return
+  }
+
+  const iterator = source.factory()
+
+  for (let next = iterator.next(); !next.done; next = iterator.next()) {
+    try {
+      const result = stage ? stage(next.value) : (next.value as A)
+
+      if (result !== SKIP) {
+        callback(result)
+      }
+    } catch (error) {
+      iterator.return?.()
+      throw error
+    }
+  }
+}
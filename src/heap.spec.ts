@@ -0,0 +1,37 @@
+import Heap from './heap'
+
+describe('Heap', () => {
+  let heap: Heap<number>
+
+  beforeEach(() => {
+    heap = new Heap((a, b) => a - b)
+  })
+
+  it('should pop the entries in order', () => {
+    ;[5, 1, 4, 2, 3, 1].forEach((x) => heap.push(x))
+    expect(heap.size).toBe(6)
+
+    const result: (number | undefined)[] = []
+    while (heap.size > 0) {
+      result.push(heap.pop())
+    }
+
+    expect(result).toEqual([1, 1, 2, 3, 4, 5])
+  })
+
+  it('should peek the top entry', () => {
+    expect(heap.peek()).toBeUndefined()
+    heap.push(2)
+    heap.push(1)
+    expect(heap.peek()).toBe(1)
+  })
+
+  it('should replace the top entry', () => {
+    ;[1, 2, 3].forEach((x) => heap.push(x))
+    expect(heap.replace(4)).toBe(1)
+    expect(heap.pop()).toBe(2)
+    expect(heap.pop()).toBe(3)
+    expect(heap.pop()).toBe(4)
+    expect(heap.pop()).toBeUndefined()
+  })
+})
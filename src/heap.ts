@@ -0,0 +1,113 @@
+/**
+ * # Heap
+ *
+ * A binary heap ordered by a comparator, the entry that sorts first being at
+ * the top. Both `push` and `pop` run in logarithmic time.
+ */
+export default class Heap<T> {
+  private items: T[] = []
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  /**
+   * Number of entries in the heap.
+   */
+  get size() {
+    return this.items.length
+  }
+
+  /**
+   * Reads the entry at the top of the heap without removing it.
+   */
+  peek(): T | undefined {
+    return this.items[0]
+  }
+
+  /**
+   * Inserts an entry into the heap.
+   *
+   * @param item Entry to insert.
+   */
+  push(item: T) {
+    this.items.push(item)
+    this.up(this.items.length - 1)
+  }
+
+  /**
+   * Removes the entry at the top of the heap.
+   *
+   * @returns The removed entry, or `undefined` if the heap is empty.
+   */
+  pop(): T | undefined {
+    const top = this.items[0]
+    const last = this.items.pop()
+
+    if (this.items.length > 0) {
+      this.items[0] = last as T
+      this.down(0)
+    }
+
+    return top
+  }
+
+  /**
+   * Replaces the entry at the top of the heap, which must not be empty.
+   *
+   * @param item Entry to insert.
+   * @returns The replaced entry.
+   */
+  replace(item: T): T {
+    const top = this.items[0]
+    this.items[0] = item
+    this.down(0)
+    return top
+  }
+
+  private up(index: number) {
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+
+      if (this.compare(this.items[index], this.items[parent]) >= 0) {
+        return
+      }
+
+      this.swap(index, parent)
+      index = parent
+    }
+  }
+
+  private down(index: number) {
+    while (true) {
+      const left = 2 * index + 1
+      const right = left + 1
+      let first = index
+
+      if (
+        left < this.items.length &&
+        this.compare(this.items[left], this.items[first]) < 0
+      ) {
+        first = left
+      }
+
+      if (
+        right < this.items.length &&
+        this.compare(this.items[right], this.items[first]) < 0
+      ) {
+        first = right
+      }
+
+      if (first === index) {
+        return
+      }
+
+      this.swap(index, first)
+      index = first
+    }
+  }
+
+  private swap(a: number, b: number) {
+    const item = this.items[a]
+    this.items[a] = this.items[b]
+    this.items[b] = item
+  }
+}
@@ -1,4 +1,13 @@
-import Iter from './index'
+import Iter, {
+  AbortError,
+  Collectors,
+  ConsumedIterableError,
+  DuplicateKeyError,
+  IterOperatorError,
+  ok,
+  ParseError,
+  Pipeline,
+} from './index'
 
 describe('Iter - Constructors', () => {
   describe('Iter.fromArray()', () => {
@@ -42,6 +51,26 @@ describe('Iter - Constructors', () => {
       const result = Iter.fromIterable('123').collect()
       expect(result).toEqual(['1', '2', '3'])
     })
+
+    it('should be able to iterate a re-iterable source many times', () => {
+      const iter = Iter.fromIterable(new Set([1, 2]))
+      expect(iter.collect()).toEqual([1, 2])
+      expect(iter.collect()).toEqual([1, 2])
+    })
+
+    it('should throw when a consumed iterator is iterated again', () => {
+      const iter = Iter.fromIterable(new Map([['a', 1]]).entries())
+      expect(iter.collect()).toEqual([['a', 1]])
+      expect(() => iter.collect()).toThrow(ConsumedIterableError)
+    })
+  })
+
+  describe('Iter.once()', () => {
+    it('should only be iterated once', () => {
+      const iter = Iter.once([1, 2, 3])
+      expect(iter.take(1).collect()).toEqual([1])
+      expect(() => iter.collect()).toThrow(ConsumedIterableError)
+    })
   })
 
   describe('Iter.range()', () => {
@@ -59,6 +88,53 @@ describe('Iter - Constructors', () => {
       const result = Iter.range(0, -4).collect()
       expect(result).toEqual([0, -1, -2, -3])
     })
+
+    it('should accept an inclusive option with or without an interval', () => {
+      expect(Iter.range(0, 3, { inclusive: true }).collect()).toEqual([
+        0, 1, 2, 3,
+      ])
+      expect(Iter.range(6, 0, -3, { inclusive: true }).collect()).toEqual([
+        6, 3, 0,
+      ])
+    })
+
+    it('should step over floats without drifting', () => {
+      const result = Iter.range(0, 0.5, 0.1).collect()
+      expect(result).toHaveLength(5)
+      expect(result[3]).toBe(0.1 * 3)
+    })
+
+    it('should generate bigint ranges', () => {
+      const result = Iter.range(BigInt(0), BigInt(3)).collect()
+      expect(result).toEqual([0, 1, 2].map(BigInt))
+    })
+
+    it('should throw a RangeError for an interval that never reaches the end', () => {
+      expect(() => Iter.range(0, 10, 0)).toThrow(RangeError)
+      expect(() => Iter.range(0, 10, -1)).toThrow(RangeError)
+    })
+  })
+
+  describe('Iter.linspace()', () => {
+    it('should yield evenly spaced numbers including both ends', () => {
+      expect(Iter.linspace(0, 1, 5).collect()).toEqual([0, 0.25, 0.5, 0.75, 1])
+      expect(Iter.linspace(2, 2, 1).collect()).toEqual([2])
+    })
+
+    it('should throw a RangeError for an invalid count', () => {
+      expect(() => Iter.linspace(0, 1, 0)).toThrow(RangeError)
+    })
+  })
+
+  describe('Iter.concat()', () => {
+    it('should chain the entries of every source', () => {
+      const result = Iter.concat(
+        [1, 2],
+        Iter.range(3, 5),
+        new Set([5])
+      ).collect()
+      expect(result).toEqual([1, 2, 3, 4, 5])
+    })
   })
 
   describe('Iter.repeat()', () => {
@@ -71,10 +147,158 @@ describe('Iter - Constructors', () => {
       const result = Iter.repeat(1, 10).collect()
       expect(result).toEqual([1, 1, 1, 1, 1, 1, 1, 1, 1, 1])
     })
+    it('should repeat endlessly when no repetitions are given', () => {
+      const result = Iter.repeat('a').take(3).collect()
+      expect(result).toEqual(['a', 'a', 'a'])
+    })
+  })
+
+  describe('Iter.entries()', () => {
+    it('should yield the entries of an object', () => {
+      const result = Iter.entries({ a: 1, b: 2 }).collect()
+      expect(result).toEqual([
+        ['a', 1],
+        ['b', 2],
+      ])
+    })
+
+    it('should yield the entries of a map', () => {
+      const source = new Map([[1, 'a']])
+      const iter = Iter.entries(source)
+      expect(iter.collect()).toEqual([[1, 'a']])
+      expect(iter.collect()).toEqual([[1, 'a']])
+    })
+
+    it('should read the keys lazily', () => {
+      const source: Record<string, number> = {}
+      const iter = Iter.keys(source)
+      source.a = 1
+      expect(iter.collect()).toEqual(['a'])
+    })
+  })
+
+  describe('Iter.keys() and Iter.values()', () => {
+    it('should yield the keys and values of an object or a map', () => {
+      expect(Iter.keys({ a: 1, b: 2 }).collect()).toEqual(['a', 'b'])
+      expect(Iter.values({ a: 1, b: 2 }).collect()).toEqual([1, 2])
+      expect(Iter.keys(new Map([[1, 'a']])).collect()).toEqual([1])
+      expect(Iter.values(new Map([[1, 'a']])).collect()).toEqual(['a'])
+    })
+  })
+
+  describe('Iter.unfold()', () => {
+    it('should yield entries until the step returns undefined', () => {
+      const result = Iter.unfold(1, (n) => (n > 100 ? undefined : [n, n * 3]))
+      expect(result.collect()).toEqual([1, 3, 9, 27, 81])
+    })
+
+    it('should thread the state through the steps', () => {
+      const fibonacci = Iter.unfold<[number, number], number>(
+        [0, 1],
+        ([a, b]) => [a, [b, a + b]]
+      )
+
+      expect(fibonacci.take(7).collect()).toEqual([0, 1, 1, 2, 3, 5, 8])
+    })
+  })
+
+  describe('Iter.iterate()', () => {
+    it('should apply the function to the previous entry', () => {
+      const result = Iter.iterate(1, (x) => x * 2)
+        .take(5)
+        .collect()
+
+      expect(result).toEqual([1, 2, 4, 8, 16])
+    })
+  })
+
+  describe('Iter.generate()', () => {
+    it('should call the generator for every entry', () => {
+      const result = Iter.generate((i) => i * i)
+        .take(4)
+        .collect()
+
+      expect(result).toEqual([0, 1, 4, 9])
+    })
+  })
+
+  describe('Iter.cycle()', () => {
+    it('should repeat the entries a number of times', () => {
+      expect(Iter.cycle([1, 2], 3).collect()).toEqual([1, 2, 1, 2, 1, 2])
+      expect(Iter.cycle([1, 2], 0).collect()).toEqual([])
+    })
+
+    it('should only read the source once', () => {
+      const spy = jest.fn()
+      const source = Iter.fromArray([1, 2]).inspect(spy)
+      const result = Iter.cycle(source).take(5).collect()
+
+      expect(result).toEqual([1, 2, 1, 2, 1])
+      expect(spy).toHaveBeenCalledTimes(2)
+    })
+
+    it('should stop on an empty source', () => {
+      expect(Iter.cycle([]).collect()).toEqual([])
+    })
+  })
+
+  describe('Iter.traverse()', () => {
+    type Node = { name: string; children?: Node[] }
+
+    const tree: Node = {
+      name: 'a',
+      children: [
+        { name: 'b', children: [{ name: 'd' }, { name: 'e' }] },
+        { name: 'c', children: [{ name: 'f' }] },
+      ],
+    }
+
+    const walk = (order: 'dfs-pre' | 'dfs-post' | 'bfs') =>
+      Iter.traverse(tree, (node) => node.children, { order })
+        .map((node) => node.name)
+        .collect()
+        .join('')
+
+    it('should walk a tree in every order', () => {
+      expect(walk('dfs-pre')).toBe('abdecf')
+      expect(walk('dfs-post')).toBe('debfca')
+      expect(walk('bfs')).toBe('abcdef')
+    })
+
+    it('should only read the children of the nodes reached', () => {
+      const children = jest.fn((n: number) => [n * 2, n * 2 + 1])
+      const result = Iter.traverse(1, children).take(4).collect()
+
+      expect(result).toEqual([1, 2, 4, 8])
+      expect(children).toHaveBeenCalledTimes(3)
+    })
+
+    it('should skip visited nodes when unique', () => {
+      const graph: Record<string, string[]> = {
+        a: ['b', 'c'],
+        b: ['a', 'c'],
+        c: ['a'],
+      }
+
+      const dfs = Iter.traverse('a', (node) => graph[node], { unique: true })
+      const bfs = Iter.traverse('a', (node) => graph[node], {
+        order: 'bfs',
+        unique: true,
+      })
+
+      expect(dfs.collect()).toEqual(['a', 'b', 'c'])
+      expect(bfs.collect()).toEqual(['a', 'b', 'c'])
+    })
   })
 })
 
 describe('Iter - Methods', () => {
+  const failing = function* () {
+    yield 1
+    yield 2
+    throw new Error('Boom')
+  }
+
   describe('Iter.map()', () => {
     let iter: Iter<number>
 
@@ -156,6 +380,171 @@ describe('Iter - Methods', () => {
     })
   })
 
+  describe('Iter.skip()', () => {
+    it('should skip the first entries', () => {
+      expect(Iter.range(0, 5).skip(3).collect()).toEqual([3, 4])
+      expect(Iter.range(0, 5).skip(-1).collect()).toEqual([0, 1, 2, 3, 4])
+    })
+
+    it('should skip entries of unsized sources', () => {
+      const result = Iter.fromIterable(new Set([1, 2, 3]))
+        .skip(1)
+        .collect()
+      expect(result).toEqual([2, 3])
+    })
+
+    it('should keep the size of sized sources', () => {
+      expect(Iter.range(0, 5).skip(3).sizeHint()).toBe(2)
+      expect(Iter.range(0, 5).skip(10).sizeHint()).toBe(0)
+    })
+  })
+
+  describe('Iter.skipWhile()', () => {
+    it('should skip entries until one does not match', () => {
+      const result = Iter.fromArray([1, 2, 5, 1, 6])
+        .skipWhile((x) => x < 3)
+        .collect()
+
+      expect(result).toEqual([5, 1, 6])
+    })
+  })
+
+  describe('Iter.takeWhile()', () => {
+    it('should take entries until one does not match', () => {
+      const result = Iter.range(0, Infinity)
+        .takeWhile((x) => x < 3)
+        .collect()
+
+      expect(result).toEqual([0, 1, 2])
+    })
+
+    it('should not read the source past the first mismatch', () => {
+      const spy = jest.fn()
+      Iter.range(0, 10)
+        .inspect(spy)
+        .takeWhile((x) => x < 3)
+        .collect()
+
+      expect(spy).toHaveBeenCalledTimes(4)
+    })
+  })
+
+  describe('Iter.takeUntil()', () => {
+    it('should take entries until one matches', () => {
+      const result = Iter.range(0, Infinity)
+        .takeUntil((x) => x === 3)
+        .collect()
+
+      expect(result).toEqual([0, 1, 2])
+    })
+
+    it('should take the matching entry when inclusive', () => {
+      const result = Iter.range(0, Infinity)
+        .takeUntil((x) => x === 3, { inclusive: true })
+        .collect()
+
+      expect(result).toEqual([0, 1, 2, 3])
+    })
+  })
+
+  describe('Iter.stepBy()', () => {
+    it('should take every n-th entry', () => {
+      expect(Iter.range(0, 10).stepBy(3).collect()).toEqual([0, 3, 6, 9])
+      expect(Iter.range(0, 10).stepBy(3).sizeHint()).toBe(4)
+      expect(Iter.fromIterable('abcde').stepBy(2).collect()).toEqual([
+        'a',
+        'c',
+        'e',
+      ])
+    })
+
+    it('should throw a RangeError for an invalid step', () => {
+      expect(() => Iter.range(0, 10).stepBy(0)).toThrow(RangeError)
+    })
+  })
+
+  describe('Iter.slice()', () => {
+    const cases: [number, number | undefined][] = [
+      [2, 5],
+      [2, undefined],
+      [2, -2],
+      [-3, undefined],
+      [-4, -1],
+      [-4, 8],
+      [-20, 2],
+      [5, 2],
+      [0, -20],
+      [2.5, 5.5],
+      [-2.5, undefined],
+      [NaN, undefined],
+      [1, NaN],
+      [-Infinity, 3],
+      [0, -Infinity],
+    ]
+
+    it.each(cases)(
+      'should behave as Array.prototype.slice(%p, %p)',
+      (start, end) => {
+        const array = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]
+        const expected = array.slice(start, end)
+        const unsized = Iter.fromIterable(new Set(array))
+
+        expect(unsized.slice(start, end).collect()).toEqual(expected)
+        expect(Iter.fromArray(array).slice(start, end).collect()).toEqual(
+          expected
+        )
+      }
+    )
+
+    it('should only buffer the entries counted from the end', () => {
+      const result = Iter.range(0, 1e6).filter(Boolean).slice(-2).collect()
+      expect(result).toEqual([999998, 999999])
+    })
+  })
+
+  describe('Iter.takeLast()', () => {
+    it('should take the last entries', () => {
+      const unsized = Iter.fromIterable(new Set([1, 2, 3]))
+
+      expect(unsized.takeLast(2).collect()).toEqual([2, 3])
+      expect(unsized.takeLast(0).collect()).toEqual([])
+      expect(Iter.range(0, 10).takeLast(3).collect()).toEqual([7, 8, 9])
+    })
+
+    it('should truncate fractional counts whether sized or not', () => {
+      const unsized = Iter.fromIterable(new Set([1, 2, 3]))
+      const sized = Iter.fromArray([1, 2, 3])
+
+      for (const iter of [unsized, sized]) {
+        expect(iter.takeLast(2.5).collect()).toEqual([2, 3])
+        expect(iter.takeLast(NaN).collect()).toEqual([])
+        expect(iter.takeLast(Infinity).collect()).toEqual([1, 2, 3])
+      }
+    })
+  })
+
+  describe('Iter.skipLast()', () => {
+    it('should skip the last entries', () => {
+      const unsized = Iter.fromIterable(new Set([1, 2, 3]))
+
+      expect(unsized.skipLast(2).collect()).toEqual([1])
+      expect(unsized.skipLast(0).collect()).toEqual([1, 2, 3])
+      expect(unsized.skipLast(5).collect()).toEqual([])
+      expect(Iter.range(0, 10).skipLast(7).collect()).toEqual([0, 1, 2])
+    })
+
+    it('should truncate fractional counts whether sized or not', () => {
+      const unsized = Iter.fromIterable(new Set([1, 2, 3]))
+      const sized = Iter.fromArray([1, 2, 3])
+
+      for (const iter of [unsized, sized]) {
+        expect(iter.skipLast(1.5).collect()).toEqual([1, 2])
+        expect(iter.skipLast(NaN).collect()).toEqual([1, 2, 3])
+        expect(iter.skipLast(Infinity).collect()).toEqual([])
+      }
+    })
+  })
+
   describe('Iter.pairwise()', () => {
     let iter: Iter<number>
 
@@ -183,6 +572,106 @@ describe('Iter - Methods', () => {
     })
   })
 
+  describe('Iter.windows()', () => {
+    let iter: Iter<number>
+
+    beforeEach(() => {
+      iter = Iter.range(0, 5)
+    })
+
+    it('should slide a window over the entries', () => {
+      const result: [number, number, number][] = iter.windows(3).collect()
+      expect(result).toEqual([
+        [0, 1, 2],
+        [1, 2, 3],
+        [2, 3, 4],
+      ])
+    })
+
+    it('should skip entries between windows with a step', () => {
+      const result = iter.windows(2, { step: 3 }).collect()
+      expect(result).toEqual([
+        [0, 1],
+        [3, 4],
+      ])
+    })
+
+    it('should yield the trailing partial windows', () => {
+      const result = iter.windows(3, { step: 2, partial: true }).collect()
+      expect(result).toEqual([[0, 1, 2], [2, 3, 4], [4]])
+    })
+
+    it('should yield a partial window for short sources', () => {
+      const result = Iter.range(0, 2).windows(3, { partial: true }).collect()
+      expect(result).toEqual([[0, 1], [1]])
+    })
+
+    it('should throw a RangeError for invalid sizes', () => {
+      expect(() => iter.windows(0)).toThrow(RangeError)
+      expect(() => iter.windows(2, { step: 1.5 })).toThrow(RangeError)
+    })
+  })
+
+  describe('Iter.chunks()', () => {
+    it('should split the entries into chunks', () => {
+      const result = Iter.range(0, 5).chunks(2).collect()
+      expect(result).toEqual([[0, 1], [2, 3], [4]])
+    })
+
+    it('should work with infinite sources', () => {
+      const result = Iter.range(0, Infinity).chunks(2).take(2).collect()
+      expect(result).toEqual([
+        [0, 1],
+        [2, 3],
+      ])
+    })
+  })
+
+  describe('Iter.chunkWhile()', () => {
+    it('should group consecutive entries', () => {
+      const result = Iter.fromArray([1, 2, 4, 5, 7])
+        .chunkWhile((a, b) => b === a + 1)
+        .collect()
+
+      expect(result).toEqual([[1, 2], [4, 5], [7]])
+    })
+
+    it('should yield nothing for empty sources', () => {
+      const result = Iter.fromArray([])
+        .chunkWhile(() => true)
+        .collect()
+      expect(result).toEqual([])
+    })
+  })
+
+  describe('Iter.splitAt()', () => {
+    it('should split the entries at an index', () => {
+      const [head, tail] = Iter.range(0, 5).splitAt(2)
+      expect(tail.collect()).toEqual([2, 3, 4])
+      expect(head.collect()).toEqual([0, 1])
+    })
+
+    it('should keep the upstream open for the tail once the head is read', () => {
+      const spy = jest.fn()
+      const [head, tail] = Iter.range(0, Infinity).inspect(spy).splitAt(2)
+
+      expect(head.take(2).collect()).toEqual([0, 1])
+      expect(spy).toHaveBeenCalledTimes(2)
+      expect(tail.take(2).collect()).toEqual([2, 3])
+    })
+  })
+
+  describe('Iter.splitWhen()', () => {
+    it('should split the entries at the first match', () => {
+      const spy = jest.fn((x: number) => x > 2)
+      const [head, tail] = Iter.fromArray([0, 3, 1, 4]).splitWhen(spy)
+
+      expect(head.collect()).toEqual([0])
+      expect(tail.collect()).toEqual([3, 1, 4])
+      expect(spy).toHaveBeenCalledTimes(2)
+    })
+  })
+
   describe('Iter.enumerate()', () => {
     let iter: Iter<number>
 
@@ -211,6 +700,56 @@ describe('Iter - Methods', () => {
     })
   })
 
+  describe('Iter.flatMap()', () => {
+    it('should chain the iterables returned by the predicate', () => {
+      const result = Iter.fromArray(['a b', 'c'])
+        .flatMap((x) => x.split(' '))
+        .collect()
+
+      expect(result).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should accept any iterable', () => {
+      const result = Iter.range(1, 4)
+        .flatMap((x) => Iter.repeat(x, x))
+        .collect()
+
+      expect(result).toEqual([1, 2, 2, 3, 3, 3])
+    })
+  })
+
+  describe('Iter.flatten()', () => {
+    const nested = [1, [2, [3, [4]]], 'ab']
+
+    it('should flatten a single level by default', () => {
+      const result: (string | number | (number | number[])[])[] =
+        Iter.fromArray(nested).flatten().collect()
+
+      expect(result).toEqual([1, 2, [3, [4]], 'ab'])
+    })
+
+    it('should flatten up to the given depth', () => {
+      const result = Iter.fromArray(nested).flatten(2).collect()
+      expect(result).toEqual([1, 2, 3, [4], 'ab'])
+    })
+
+    it('should flatten every level with an infinite depth', () => {
+      const result: (string | number)[] = Iter.fromArray(nested)
+        .flatten(Infinity)
+        .collect()
+
+      expect(result).toEqual([1, 2, 3, 4, 'ab'])
+    })
+
+    it('should flatten any iterable but strings', () => {
+      const result = Iter.fromArray([new Set(['ab']), Iter.range(0, 2)])
+        .flatten()
+        .collect()
+
+      expect(result).toEqual(['ab', 0, 1])
+    })
+  })
+
   describe('Iter.fold()', () => {
     let iter: Iter<number>
 
@@ -265,48 +804,688 @@ describe('Iter - Methods', () => {
       expect(evens).toBeInstanceOf(Iter)
       expect(odds).toBeInstanceOf(Iter)
     })
-  })
-
-  describe('Iter.collect()', () => {
-    let iter: Iter<number>
 
-    beforeEach(() => {
-      iter = Iter.range(0, 4)
+    it('should call the partition function once per entry', () => {
+      const spy = jest.fn((x: number) => x % 2 === 0)
+      const [evens, odds] = iter.partition(spy)
+      expect(odds.collect()).toEqual([1, 3])
+      expect(evens.collect()).toEqual([0, 2, 4])
+      expect(spy).toHaveBeenCalledTimes(5)
     })
 
-    it('should collect all elements', () => {
-      const result = iter.collect()
-      expect(result).toEqual([0, 1, 2, 3])
+    it('should be able to consume both halves in any interleaving', () => {
+      const [evens, odds] = iter.partition((x) => x % 2 === 0)
+      const even = evens[Symbol.iterator]()
+      const odd = odds[Symbol.iterator]()
+
+      expect(odd.next().value).toBe(1)
+      expect(even.next().value).toBe(0)
+      expect(even.next().value).toBe(2)
+      expect(odd.next().value).toBe(3)
+      expect(even.next().value).toBe(4)
+      expect(odd.next().done).toBe(true)
     })
 
-    it('should collect all mapped elements', () => {
-      const result = iter.map((x) => x * 2).collect()
-      expect(result).toEqual([0, 2, 4, 6])
+    it('should rethrow an upstream error in both halves', () => {
+      const [evens, odds] = Iter.fromGenerator(failing).partition(
+        (x) => x % 2 === 0
+      )
+
+      expect(() => evens.collect()).toThrow('Boom')
+      expect(() => odds.collect()).toThrow('Boom')
     })
 
-    it('should collect all filtered elements', () => {
-      const result = iter.filter((x) => x % 2 === 0).collect()
-      expect(result).toEqual([0, 2])
+    it('should close the upstream when only one half is consumed', () => {
+      const cleanup = jest.fn()
+      const generator = function* () {
+        try {
+          yield* [1, 2, 3, 4]
+        } finally {
+          cleanup()
+        }
+      }
+
+      const [evens] = Iter.fromGenerator(generator).partition(
+        (x) => x % 2 === 0
+      )
+
+      expect(evens.take(1).collect()).toEqual([2])
+      expect(cleanup).toHaveBeenCalledTimes(1)
+      expect(() => evens.collect()).toThrow(ConsumedIterableError)
     })
   })
 
-  describe('Iter.inspect()', () => {
-    let iter: Iter<number>
+  describe('Iter.tee()', () => {
+    it('should create n branches yielding the same entries', () => {
+      const [a, b, c] = Iter.range(0, 3).tee(3)
+      expect(a.collect()).toEqual([0, 1, 2])
+      expect(b.collect()).toEqual([0, 1, 2])
+      expect(c.collect()).toEqual([0, 1, 2])
+    })
 
-    beforeEach(() => {
-      iter = Iter.range(0, 4)
+    it('should consume the upstream only once', () => {
+      const spy = jest.fn()
+      const [a, b] = Iter.range(0, 3).inspect(spy).tee()
+      const left = a[Symbol.iterator]()
+      const right = b[Symbol.iterator]()
+
+      expect(left.next().value).toBe(0)
+      expect(right.next().value).toBe(0)
+      expect(right.next().value).toBe(1)
+      expect(left.next().value).toBe(1)
+      expect(spy).toHaveBeenCalledTimes(2)
     })
 
-    it("should not call the inspector function it hasn't been evaluated", () => {
-      const inspector = jest.fn()
-      iter.inspect(inspector)
-      expect(inspector).not.toHaveBeenCalled()
+    it('should work with one-shot sources', () => {
+      const source = [1, 2, 3][Symbol.iterator]()
+      const [a, b] = Iter.fromIterable({
+        [Symbol.iterator]: () => source,
+      }).tee()
+      expect(a.collect()).toEqual([1, 2, 3])
+      expect(b.collect()).toEqual([1, 2, 3])
     })
 
-    it('should call the inspector function when evaluated', () => {
-      const spy = jest.fn()
-      iter.inspect(spy).collect()
-      expect(spy).toHaveBeenCalled()
+    it('should throw when a branch lags behind more than the buffer limit', () => {
+      const [a] = Iter.range(0, 10).tee(2, { bufferLimit: 3 })
+      expect(() => a.collect()).toThrow(RangeError)
+    })
+
+    it('should close the upstream once every started branch is closed', () => {
+      const cleanup = jest.fn()
+      const generator = function* () {
+        try {
+          yield* [1, 2, 3]
+        } finally {
+          cleanup()
+        }
+      }
+
+      const [a, b, c] = Iter.fromGenerator(generator).tee(3)
+      const left = a[Symbol.iterator]()
+      const right = b[Symbol.iterator]()
+
+      expect(left.next().value).toBe(1)
+      expect(right.next().value).toBe(1)
+      left.return(undefined)
+      expect(cleanup).not.toHaveBeenCalled()
+      right.return(undefined)
+      expect(cleanup).toHaveBeenCalledTimes(1)
+      expect(c.take(1).collect()).toEqual([1])
+    })
+
+    it('should throw when a branch needs entries of a closed upstream', () => {
+      const [a, b] = Iter.range(0, 3).tee()
+
+      expect(a.take(1).collect()).toEqual([0])
+      expect(() => b.collect()).toThrow(ConsumedIterableError)
+    })
+
+    it('should rethrow an upstream error in every branch', () => {
+      const [a, b] = Iter.fromGenerator(failing).tee()
+
+      expect(() => a.collect()).toThrow('Boom')
+      expect(b.take(2).collect()).toEqual([1, 2])
+      expect(() => Iter.fromGenerator(failing).tee()[1].collect()).toThrow(
+        'Boom'
+      )
+    })
+
+    it('should not push an entry to any branch when a buffer is full', () => {
+      const [a, b, c] = Iter.range(0, 10).tee(3, { bufferLimit: 2 })
+      const first = a[Symbol.iterator]()
+      const second = b[Symbol.iterator]()
+
+      first.next()
+      first.next()
+      expect(second.next().value).toBe(0)
+      expect(() => first.next()).toThrow(RangeError)
+      expect(second.next().value).toBe(1)
+      expect(c.take(2).collect()).toEqual([0, 1])
+    })
+
+    it('should throw when a branch is iterated twice', () => {
+      const [a] = Iter.range(0, 3).tee()
+
+      expect(a.collect()).toEqual([0, 1, 2])
+      expect(() => a.collect()).toThrow(ConsumedIterableError)
+    })
+  })
+
+  describe('Iter.share()', () => {
+    it('should resume where the previous consumer stopped', () => {
+      const shared = Iter.range(0, 5).share()
+      expect(shared.take(2).collect()).toEqual([0, 1])
+      expect(shared.collect()).toEqual([2, 3, 4])
+      expect(shared.collect()).toEqual([])
+    })
+  })
+
+  describe('Iter.cache()', () => {
+    it('should run the upstream only once', () => {
+      const spy = jest.fn()
+      const iter = Iter.range(0, 3).inspect(spy).cache()
+
+      expect(iter.collect()).toEqual([0, 1, 2])
+      expect(iter.collect()).toEqual([0, 1, 2])
+      expect(spy).toHaveBeenCalledTimes(3)
+    })
+
+    it('should record the entries lazily', () => {
+      const spy = jest.fn()
+      const iter = Iter.range(0, Infinity).inspect(spy).cache()
+
+      expect(iter.take(2).collect()).toEqual([0, 1])
+      expect(spy).toHaveBeenCalledTimes(2)
+      expect(iter.take(3).collect()).toEqual([0, 1, 2])
+      expect(spy).toHaveBeenCalledTimes(3)
+    })
+
+    it('should make one-shot sources replayable', () => {
+      const generator = (function* () {
+        yield* [1, 2]
+      })()
+
+      const iter = Iter.fromIterable(generator).cache()
+      expect(iter.collect()).toEqual([1, 2])
+      expect(iter.collect()).toEqual([1, 2])
+    })
+  })
+
+  describe('Iter.zip()', () => {
+    it('should zip the entries of every source', () => {
+      const result: [number, string, boolean][] = Iter.range(0, Infinity)
+        .zip('abc', [true, false])
+        .collect()
+
+      expect(result).toEqual([
+        [0, 'a', true],
+        [1, 'b', false],
+      ])
+    })
+
+    it('should close every source when one is exhausted', () => {
+      const cleanup = jest.fn()
+      const iter = Iter.fromGenerator(function* () {
+        try {
+          yield* [1, 2, 3]
+        } finally {
+          cleanup()
+        }
+      })
+
+      expect(iter.zip([1]).collect()).toEqual([[1, 1]])
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Iter.zipLongest()', () => {
+    it('should zip until every source is exhausted', () => {
+      const result: [number | null, string | null][] = Iter.range(0, 3)
+        .zipLongest(null, 'abcd')
+        .collect()
+
+      expect(result).toEqual([
+        [0, 'a'],
+        [1, 'b'],
+        [2, 'c'],
+        [null, 'd'],
+      ])
+    })
+  })
+
+  describe('Iter.concat()', () => {
+    it('should chain other iterables after the entries', () => {
+      const result = Iter.range(0, 2).concat('ab', [true]).collect()
+      expect(result).toEqual([0, 1, 'a', 'b', true])
+    })
+
+    it('should be lazy over infinite sources', () => {
+      const result = Iter.range(0, Infinity).concat('ab').take(3).collect()
+      expect(result).toEqual([0, 1, 2])
+    })
+  })
+
+  describe('Iter.interleave()', () => {
+    it('should alternate between the sources', () => {
+      const result = Iter.range(0, Infinity).interleave('ab').collect()
+      expect(result).toEqual([0, 'a', 1, 'b', 2])
+    })
+  })
+
+  describe('Iter.roundRobin()', () => {
+    it('should alternate between the sources until all are exhausted', () => {
+      const result = Iter.range(0, 3).roundRobin('a', [true, false]).collect()
+      expect(result).toEqual([0, 'a', true, 1, false, 2])
+    })
+
+    it('should work with infinite sources', () => {
+      const result = Iter.range(0, Infinity).roundRobin('a').take(4).collect()
+      expect(result).toEqual([0, 'a', 1, 2])
+    })
+  })
+
+  describe('Iter.distinct()', () => {
+    it('should yield every entry only once', () => {
+      const result = Iter.fromArray([1, 2, 1, 3, 2]).distinct().collect()
+      expect(result).toEqual([1, 2, 3])
+    })
+
+    it('should stop early when composed with take', () => {
+      const spy = jest.fn()
+      const result = Iter.range(0, Infinity)
+        .map((x) => x % 10)
+        .inspect(spy)
+        .distinct()
+        .take(5)
+        .collect()
+
+      expect(result).toEqual([0, 1, 2, 3, 4])
+      expect(spy).toHaveBeenCalledTimes(5)
+    })
+
+    it('should forget the least recently seen entries with a maximum size', () => {
+      const result = Iter.fromArray([1, 2, 3, 1, 3])
+        .distinct({ maxSize: 2 })
+        .collect()
+
+      expect(result).toEqual([1, 2, 3, 1])
+    })
+  })
+
+  describe('Iter.distinctBy()', () => {
+    it('should yield the entries with an unseen key', () => {
+      const result = Iter.fromArray(['a', 'B', 'A', 'b', 'c'])
+        .distinctBy((x) => x.toLowerCase())
+        .collect()
+
+      expect(result).toEqual(['a', 'B', 'c'])
+    })
+  })
+
+  describe('Iter.dedupAdjacent()', () => {
+    it('should drop consecutive duplicates', () => {
+      const result = Iter.fromArray([1, 1, 2, 1, 1]).dedupAdjacent().collect()
+      expect(result).toEqual([1, 2, 1])
+    })
+
+    it('should use a custom equality function', () => {
+      const result = Iter.fromArray([1, 3, 4, 6, 7])
+        .dedupAdjacent((a, b) => a % 2 === b % 2)
+        .collect()
+
+      expect(result).toEqual([1, 4, 7])
+    })
+  })
+
+  describe('Iter.union()', () => {
+    it('should yield the distinct entries of both sources', () => {
+      const result = Iter.fromArray([1, 2, 2]).union([2, 3, 1]).collect()
+      expect(result).toEqual([1, 2, 3])
+    })
+  })
+
+  describe('Iter.intersect()', () => {
+    it('should yield the distinct entries present in both sources', () => {
+      const result = Iter.range(0, Infinity)
+        .intersect([9, 1, 3])
+        .take(3)
+        .collect()
+      expect(result).toEqual([1, 3, 9])
+    })
+
+    it('should compare entries by key', () => {
+      const result = Iter.fromArray([{ id: 1 }, { id: 2 }, { id: 1 }])
+        .intersect([{ id: 1 }], (x) => x.id)
+        .collect()
+
+      expect(result).toEqual([{ id: 1 }])
+    })
+  })
+
+  describe('Iter.difference()', () => {
+    it('should yield the distinct entries missing from the other source', () => {
+      const result = Iter.fromArray([0, 1, 2, 2, 3, 4])
+        .difference([1, 3])
+        .collect()
+
+      expect(result).toEqual([0, 2, 4])
+    })
+  })
+
+  describe('Iter.groupBy()', () => {
+    it('should group the entries by key', () => {
+      const result = Iter.range(0, 5).groupBy((x) =>
+        x % 2 === 0 ? 'even' : 'odd'
+      )
+      expect(result).toEqual(
+        new Map([
+          ['even', [0, 2, 4]],
+          ['odd', [1, 3]],
+        ])
+      )
+    })
+  })
+
+  describe('Iter.countBy()', () => {
+    it('should count the entries by key', () => {
+      const result = Iter.fromIterable('hello').countBy((x) => x)
+      expect(result).toEqual(
+        new Map([
+          ['h', 1],
+          ['e', 1],
+          ['l', 2],
+          ['o', 1],
+        ])
+      )
+    })
+  })
+
+  describe('Iter.keyBy()', () => {
+    const users = [
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'Bob' },
+      { id: 1, name: 'Carol' },
+    ]
+
+    it('should keep the last entry of a duplicate key by default', () => {
+      const result = Iter.fromArray(users).keyBy((user) => user.id)
+      expect(result.get(1)?.name).toBe('Carol')
+      expect(result.get(2)?.name).toBe('Bob')
+    })
+
+    it('should keep the first entry of a duplicate key', () => {
+      const result = Iter.fromArray(users).keyBy((user) => user.id, {
+        onDuplicate: 'first',
+      })
+
+      expect(result.get(1)?.name).toBe('Alice')
+    })
+
+    it('should throw on a duplicate key', () => {
+      const result = () =>
+        Iter.fromArray(users).keyBy((user) => user.id, { onDuplicate: 'error' })
+
+      expect(result).toThrow(DuplicateKeyError)
+    })
+  })
+
+  describe('Iter.groupAdjacent()', () => {
+    it('should group consecutive entries sharing a key', () => {
+      const result = Iter.fromIterable('aabcca')
+        .groupAdjacent((x) => x)
+        .collect()
+
+      expect(result).toEqual([
+        ['a', ['a', 'a']],
+        ['b', ['b']],
+        ['c', ['c', 'c']],
+        ['a', ['a']],
+      ])
+    })
+
+    it('should work with infinite sources', () => {
+      const result = Iter.range(0, Infinity)
+        .groupAdjacent((x) => Math.floor(x / 3))
+        .take(2)
+        .collect()
+
+      expect(result).toEqual([
+        [0, [0, 1, 2]],
+        [1, [3, 4, 5]],
+      ])
+    })
+  })
+
+  describe('Iter.count()', () => {
+    it('should count the entries', () => {
+      expect(Iter.range(0, 5).count()).toBe(5)
+      expect(Iter.fromArray([]).count()).toBe(0)
+    })
+  })
+
+  describe('Iter.sum()', () => {
+    it('should sum the entries', () => {
+      expect(Iter.range(0, 5).sum()).toBe(10)
+      expect(Iter.fromArray<number>([]).sum()).toBe(0)
+    })
+  })
+
+  describe('Iter.product()', () => {
+    it('should multiply the entries', () => {
+      expect(Iter.range(1, 5).product()).toBe(24)
+      expect(Iter.fromArray<number>([]).product()).toBe(1)
+    })
+  })
+
+  describe('Iter.average()', () => {
+    it('should compute the mean of the entries', () => {
+      expect(Iter.range(0, 5).average()).toBe(2)
+      expect(Iter.fromArray<number>([]).average()).toBeUndefined()
+    })
+  })
+
+  describe('Iter.variance()', () => {
+    const iter = Iter.fromArray([2, 4, 4, 4, 5, 5, 7, 9])
+
+    it('should compute the population variance', () => {
+      expect(iter.variance()).toBe(4)
+    })
+
+    it('should compute the sample variance', () => {
+      expect(iter.variance({ sample: true })).toBeCloseTo(32 / 7)
+      expect(Iter.fromArray([1]).variance({ sample: true })).toBeUndefined()
+    })
+
+    it('should be numerically stable for large offsets', () => {
+      const result = Iter.fromArray([4, 7, 13, 16])
+        .map((x) => x + 1e9)
+        .variance()
+
+      expect(result).toBe(22.5)
+    })
+  })
+
+  describe('Iter.min() / Iter.max()', () => {
+    it('should find the smallest and largest entries', () => {
+      const iter = Iter.fromArray([3, 1, 2])
+      expect(iter.min()).toBe(1)
+      expect(iter.max()).toBe(3)
+      expect(Iter.fromArray<number>([]).min()).toBeUndefined()
+    })
+  })
+
+  describe('Iter.minBy() / Iter.maxBy()', () => {
+    const users = Iter.fromArray([
+      { name: 'Alice', age: 30 },
+      { name: 'Bob', age: 25 },
+      { name: 'Carol', age: 30 },
+    ])
+
+    it('should find the entries with the smallest and largest keys', () => {
+      expect(users.minBy((user) => user.age)?.name).toBe('Bob')
+      expect(users.maxBy((user) => user.age)?.name).toBe('Alice')
+    })
+  })
+
+  describe('Iter.first() / Iter.last() / Iter.nth()', () => {
+    it('should get the entries at a position', () => {
+      expect(Iter.range(1, Infinity).first()).toBe(1)
+      expect(Iter.range(1, 10).last()).toBe(9)
+      expect(Iter.range(1, Infinity).nth(2)).toBe(3)
+      expect(Iter.range(1, 3).nth(5)).toBeUndefined()
+    })
+  })
+
+  describe('Iter.find() / Iter.findIndex()', () => {
+    it('should find the first matching entry', () => {
+      expect(Iter.range(1, Infinity).find((x) => x % 7 === 0)).toBe(7)
+      expect(Iter.range(1, Infinity).findIndex((x) => x % 7 === 0)).toBe(6)
+      expect(Iter.range(1, 3).find((x) => x > 5)).toBeUndefined()
+      expect(Iter.range(1, 3).findIndex((x) => x > 5)).toBe(-1)
+    })
+
+    it('should narrow the type with a type guard', () => {
+      const result: string | undefined = Iter.fromArray<string | number>([
+        1,
+        'a',
+      ]).find((x): x is string => typeof x === 'string')
+
+      expect(result).toBe('a')
+    })
+  })
+
+  describe('Iter.sorted()', () => {
+    it('should sort the entries in ascending order by default', () => {
+      expect(Iter.fromArray([3, 1, 2]).sorted().collect()).toEqual([1, 2, 3])
+    })
+
+    it('should sort the entries with a comparator', () => {
+      const result = Iter.fromArray([3, 1, 2])
+        .sorted((a, b) => b - a)
+        .collect()
+
+      expect(result).toEqual([3, 2, 1])
+    })
+  })
+
+  describe('Iter.topK()', () => {
+    it('should keep the k entries that sort first', () => {
+      const iter = Iter.fromArray([5, 1, 4, 2, 3])
+      expect(iter.topK(2).collect()).toEqual([1, 2])
+      expect(iter.topK(2, (a, b) => b - a).collect()).toEqual([5, 4])
+      expect(iter.topK(10).collect()).toEqual([1, 2, 3, 4, 5])
+      expect(iter.topK(0).collect()).toEqual([])
+    })
+
+    it('should match sorting a large shuffled source', () => {
+      const source = Iter.range(0, 1000)
+        .map((x) => (x * 7919) % 1000)
+        .collect()
+
+      const result = Iter.fromArray(source).topK(10).collect()
+      expect(result).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+    })
+
+    it('should keep ties in their original order, as sorted() does', () => {
+      const source = Iter.fromArray([1, 1, 1, 0, 1]).zip('abcde')
+      const byKey = (a: [number, string], b: [number, string]) => a[0] - b[0]
+
+      expect(source.topK(3, byKey).collect()).toEqual(
+        source.sorted(byKey).take(3).collect()
+      )
+      expect(
+        source
+          .topK(3, byKey)
+          .map(([, id]) => id)
+          .join('')
+      ).toBe('dab')
+    })
+
+    it('should truncate fractional counts, as take() does', () => {
+      const iter = Iter.fromArray([5, 1, 4, 2, 3])
+
+      for (const k of [2.5, NaN, -0.5]) {
+        expect(iter.topK(k).collect()).toEqual(iter.sorted().take(k).collect())
+      }
+      expect(iter.topK(2.5).collect()).toEqual([1, 2])
+    })
+  })
+
+  describe('Iter.collect()', () => {
+    let iter: Iter<number>
+
+    beforeEach(() => {
+      iter = Iter.range(0, 4)
+    })
+
+    it('should collect all elements', () => {
+      const result = iter.collect()
+      expect(result).toEqual([0, 1, 2, 3])
+    })
+
+    it('should collect all mapped elements', () => {
+      const result = iter.map((x) => x * 2).collect()
+      expect(result).toEqual([0, 2, 4, 6])
+    })
+
+    it('should collect all filtered elements', () => {
+      const result = iter.filter((x) => x % 2 === 0).collect()
+      expect(result).toEqual([0, 2])
+    })
+  })
+
+  describe('Iter.toSet()', () => {
+    it('should collect the unique entries', () => {
+      expect(Iter.fromArray([1, 2, 1]).toSet()).toEqual(new Set([1, 2]))
+    })
+  })
+
+  describe('Iter.toMap()', () => {
+    it('should collect key-value pairs', () => {
+      const result: Map<string, number> = Iter.entries({ a: 1, b: 2 }).toMap()
+      expect(result).toEqual(
+        new Map([
+          ['a', 1],
+          ['b', 2],
+        ])
+      )
+    })
+
+    it('should compute the keys and values of every entry', () => {
+      const result = Iter.fromArray(['a', 'bb']).toMap((x) => x.length)
+      expect(result).toEqual(
+        new Map([
+          [1, 'a'],
+          [2, 'bb'],
+        ])
+      )
+    })
+  })
+
+  describe('Iter.toObject()', () => {
+    it('should collect key-value pairs', () => {
+      const result: Record<'a' | 'b', number> = Iter.entries({
+        a: 1,
+        b: 2,
+      }).toObject()
+
+      expect(result).toEqual({ a: 1, b: 2 })
+    })
+
+    it('should compute the keys and values of every entry', () => {
+      const result = Iter.fromArray(['a', 'bb']).toObject(
+        (x) => x,
+        (x) => x.length
+      )
+
+      expect(result).toEqual({ a: 1, bb: 2 })
+    })
+  })
+
+  describe('Iter.join()', () => {
+    it('should join the entries', () => {
+      expect(Iter.range(0, 3).join()).toBe('0,1,2')
+      expect(Iter.range(0, 3).join(', ')).toBe('0, 1, 2')
+    })
+  })
+
+  describe('Iter.inspect()', () => {
+    let iter: Iter<number>
+
+    beforeEach(() => {
+      iter = Iter.range(0, 4)
+    })
+
+    it("should not call the inspector function it hasn't been evaluated", () => {
+      const inspector = jest.fn()
+      iter.inspect(inspector)
+      expect(inspector).not.toHaveBeenCalled()
+    })
+
+    it('should call the inspector function when evaluated', () => {
+      const spy = jest.fn()
+      iter.inspect(spy).collect()
+      expect(spy).toHaveBeenCalled()
     })
 
     it('should return an Iter that collects to the original iterable', () => {
@@ -415,3 +1594,776 @@ describe('Iter - Methods', () => {
     })
   })
 })
+
+describe('Iter - Cleanup', () => {
+  let cleanup: jest.Mock
+  let iter: Iter<number>
+
+  beforeEach(() => {
+    cleanup = jest.fn()
+    iter = Iter.fromGenerator(function* () {
+      try {
+        yield* [1, 2, 3, 4, 5]
+      } finally {
+        cleanup()
+      }
+    })
+  })
+
+  const operators: [string, (iter: Iter<number>) => Iter<unknown>][] = [
+    ['map', (iter) => iter.map((x) => x * 2)],
+    ['filter', (iter) => iter.filter(() => true)],
+    ['reject', (iter) => iter.reject(() => false)],
+    ['take', (iter) => iter.take(10)],
+    ['pairwise', (iter) => iter.pairwise()],
+    ['enumerate', (iter) => iter.enumerate()],
+    ['scan', (iter) => iter.scan((x, y) => x + y, 0)],
+    ['inspect', (iter) => iter.inspect(() => {})],
+    ['onFinally', (iter) => iter.onFinally(() => {})],
+    ['tee', (iter) => iter.tee(1)[0]],
+  ]
+
+  describe.each(operators)('Iter.%s()', (_, operator) => {
+    it('should close the upstream when taking fewer entries', () => {
+      operator(iter).take(1).collect()
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('should close the upstream when breaking out of a loop', () => {
+      for (const _ of operator(iter)) {
+        break
+      }
+
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('should close the upstream when a predicate throws', () => {
+      const result = () =>
+        operator(iter).forEach(() => {
+          throw new Error('Boom')
+        })
+
+      expect(result).toThrow('Boom')
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  it('should close the upstream when an operator predicate throws', () => {
+    const result = () =>
+      iter
+        .map((x) => {
+          if (x === 2) {
+            throw new Error('Boom')
+          }
+
+          return x
+        })
+        .collect()
+
+    expect(result).toThrow('Boom')
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it('should close the upstream once the started partitions are closed', () => {
+    const [evens, odds] = iter.partition((x) => x % 2 === 0)
+
+    expect(evens.take(1).collect()).toEqual([2])
+    expect(cleanup).toHaveBeenCalledTimes(1)
+    expect(odds.take(1).collect()).toEqual([1])
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it('should close the upstream when any() finds a match', () => {
+    expect(iter.any((x) => x === 2)).toBe(true)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it('should close the upstream when all() finds a mismatch', () => {
+    expect(iter.all((x) => x < 2)).toBe(false)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not pull more entries than taken', () => {
+    const spy = jest.fn()
+    iter.inspect(spy).take(2).collect()
+    expect(spy).toHaveBeenCalledTimes(2)
+  })
+
+  describe('Iter.onFinally()', () => {
+    it('should run the callback once the iteration is exhausted', () => {
+      const spy = jest.fn()
+      const result = Iter.range(0, 3).onFinally(spy)
+
+      expect(spy).not.toHaveBeenCalled()
+      expect(result.collect()).toEqual([0, 1, 2])
+      expect(spy).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Iter.using()', () => {
+    it('should acquire and release the resource for every iteration', () => {
+      const acquire = jest.fn(() => [1, 2, 3])
+      const release = jest.fn()
+      const result = Iter.using(acquire, release, (resource) => resource)
+
+      expect(acquire).not.toHaveBeenCalled()
+      expect(result.collect()).toEqual([1, 2, 3])
+      expect(result.take(1).collect()).toEqual([1])
+      expect(acquire).toHaveBeenCalledTimes(2)
+      expect(release).toHaveBeenCalledTimes(2)
+    })
+
+    it('should release the resource when an error is thrown', () => {
+      const release = jest.fn()
+      const result = Iter.using(
+        () => 'resource',
+        release,
+        function* () {
+          yield 1
+          throw new Error('Boom')
+        }
+      )
+
+      expect(() => result.collect()).toThrow('Boom')
+      expect(release).toHaveBeenCalledWith('resource')
+    })
+  })
+})
+
+declare module './index' {
+  interface Iter<A> {
+    double(this: Iter<number>): Iter<number>
+  }
+}
+
+describe('Iter - Extensions', () => {
+  describe('Iter.pipe()', () => {
+    const double = function* (source: Iterable<number>) {
+      for (const item of source) {
+        yield item
+        yield item
+      }
+    }
+
+    it('should apply a custom operator', () => {
+      const result = Iter.range(0, 3)
+        .pipe(double)
+        .map((x) => x * 10)
+        .collect()
+
+      expect(result).toEqual([0, 0, 10, 10, 20, 20])
+    })
+
+    it('should apply a pipeline', () => {
+      const pipeline = Pipeline.of<number>().filter((x) => x > 0)
+      const result = Iter.range(0, 3).pipe(pipeline).collect()
+      expect(result).toEqual([1, 2])
+    })
+
+    it('should close the upstream when stopping early', () => {
+      const cleanup = jest.fn()
+      Iter.range(0, Infinity).onFinally(cleanup).pipe(double).take(1).collect()
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Iter.extend()', () => {
+    beforeAll(() => {
+      Iter.extend({
+        double(this: Iter<number>) {
+          return this.map((x) => x * 2)
+        },
+      })
+    })
+
+    it('should add methods to every Iter', () => {
+      expect(Iter.range(0, 3).double().collect()).toEqual([0, 2, 4])
+    })
+
+    it('should not override existing methods', () => {
+      expect(() => Iter.extend({ map: () => null })).toThrow(TypeError)
+      expect(() => Iter.extend({ double: () => null })).toThrow(TypeError)
+    })
+  })
+
+  describe('Subclassing', () => {
+    class Numbers<A> extends Iter<A> {
+      constructor(factory: () => Generator<A>) {
+        super(factory)
+      }
+
+      static of<A>(source: Iterable<A>) {
+        return new Numbers(function* () {
+          yield* source
+        })
+      }
+
+      total(this: Numbers<number>) {
+        return this.sum()
+      }
+    }
+
+    it('should return instances of the subclass', () => {
+      const numbers = Numbers.of([1, 2, 3, 4])
+      const result = numbers
+        .filter((x) => x > 1)
+        .take(2)
+        .total()
+
+      expect(result).toBe(5)
+      expect(numbers.map((x) => x * 2)).toBeInstanceOf(Numbers)
+      expect(numbers.enumerate()).toBeInstanceOf(Numbers)
+    })
+  })
+})
+
+describe('Iter - Random access', () => {
+  describe('Iter.sizeHint()', () => {
+    it('should know the size of arrays and ranges', () => {
+      expect(Iter.fromArray([1, 2, 3]).sizeHint()).toBe(3)
+      expect(Iter.range(0, 10, 2).sizeHint()).toBe(5)
+    })
+
+    it('should keep the size through map, enumerate, take and zip', () => {
+      const iter = Iter.range(0, 100)
+        .map((x) => x * 2)
+        .enumerate()
+        .take(10)
+        .zip([1, 2, 3])
+
+      expect(iter.sizeHint()).toBe(3)
+    })
+
+    it('should not know the size after filter or of a generator', () => {
+      expect(Iter.range(0, 10).filter(Boolean).sizeHint()).toBeUndefined()
+      expect(Iter.fromIterable(new Set([1])).sizeHint()).toBeUndefined()
+      expect(
+        Iter.range(0, 10)
+          .zip(new Set([1]))
+          .sizeHint()
+      ).toBeUndefined()
+    })
+
+    it('should not know the size of endless ranges', () => {
+      const endless = Iter.range(0, Infinity)
+
+      expect(endless.sizeHint()).toBeUndefined()
+      expect(endless.reverse().sizeHint()).toBeUndefined()
+      expect(endless.take(3).collect()).toEqual([0, 1, 2])
+      expect(endless.at(2)).toBe(2)
+    })
+
+    it('should agree with the iteration on fractional counts', () => {
+      const taken = Iter.range(0, 10).take(2.5)
+      const skipped = Iter.range(0, 10).skip(7.5)
+
+      expect(taken.sizeHint()).toBe(2)
+      expect(taken.collect()).toEqual([0, 1])
+      expect(skipped.sizeHint()).toBe(3)
+      expect(skipped.collect()).toEqual([7, 8, 9])
+      expect(
+        Iter.fromGenerator(function* () {
+          yield* [1, 2, 3]
+        })
+          .take(2.5)
+          .collect()
+      ).toEqual([1, 2])
+    })
+  })
+
+  describe('Iter.len()', () => {
+    it('should count the entries when the size is unknown', () => {
+      expect(Iter.range(0, 1000).len()).toBe(1000)
+      expect(
+        Iter.range(0, 10)
+          .filter((x) => x % 2 === 0)
+          .len()
+      ).toBe(5)
+    })
+  })
+
+  describe('Iter.at()', () => {
+    it('should read sized sources without iterating them', () => {
+      const spy = jest.fn((x: number) => x * 2)
+      const iter = Iter.range(0, 1e9).map(spy)
+
+      expect(iter.at(5)).toBe(10)
+      expect(iter.at(-1)).toBe(1999999998)
+      expect(spy).toHaveBeenCalledTimes(2)
+    })
+
+    it('should fall back to iteration', () => {
+      const iter = Iter.fromIterable(new Set([1, 2, 3]))
+
+      expect(iter.at(1)).toBe(2)
+      expect(iter.at(-1)).toBe(3)
+      expect(iter.at(-4)).toBeUndefined()
+      expect(iter.at(5)).toBeUndefined()
+    })
+  })
+
+  describe('Iter.reverse()', () => {
+    it('should reverse sized sources without buffering', () => {
+      const iter = Iter.range(0, 5).map(String).reverse()
+
+      expect(iter.sizeHint()).toBe(5)
+      expect(iter.at(0)).toBe('4')
+      expect(iter.take(2).collect()).toEqual(['4', '3'])
+    })
+
+    it('should reverse any other source', () => {
+      const result = Iter.fromIterable('abc').filter(Boolean).reverse()
+      expect(result.collect()).toEqual(['c', 'b', 'a'])
+    })
+  })
+
+  describe('Iter.last()', () => {
+    it('should read the last entry of sized sources directly', () => {
+      const spy = jest.fn((x: number) => x)
+      expect(Iter.range(0, 1e9).map(spy).last()).toBe(1e9 - 1)
+      expect(spy).toHaveBeenCalledTimes(1)
+      expect(Iter.fromArray([]).last()).toBeUndefined()
+    })
+  })
+})
+
+describe('Iter - Error handling', () => {
+  const parse = (text: string) => {
+    const value = Number(text)
+
+    if (Number.isNaN(value)) {
+      throw new Error(`Invalid number ${text}`)
+    }
+
+    return value
+  }
+
+  const records = ['1', 'x', '3', 'y']
+
+  describe('Iter.tryMap()', () => {
+    it('should turn the entries into results', () => {
+      const result = Iter.fromArray(records).tryMap(parse).collect()
+
+      expect(result[0]).toEqual(ok(1))
+      expect(result[1].ok).toBe(false)
+      expect(result).toHaveLength(4)
+    })
+  })
+
+  describe('Iter.filterOk()', () => {
+    it('should keep the successful values', () => {
+      const result = Iter.fromArray(records).tryMap(parse).filterOk().collect()
+      expect(result).toEqual([1, 3])
+    })
+  })
+
+  describe('Iter.partitionResults()', () => {
+    it('should split the values and the errors in a single pass', () => {
+      const spy = jest.fn()
+      const [values, errors] = Iter.fromArray(records)
+        .inspect(spy)
+        .tryMap<number, Error>(parse)
+        .partitionResults()
+
+      expect(values.collect()).toEqual([1, 3])
+      expect(errors.map((error) => error.message).collect()).toEqual([
+        'Invalid number x',
+        'Invalid number y',
+      ])
+      expect(spy).toHaveBeenCalledTimes(4)
+    })
+  })
+
+  describe('Iter.catchError()', () => {
+    it('should continue with the iterable returned by the handler', () => {
+      const handler = jest.fn(() => [-1])
+      const result = Iter.fromArray(records)
+        .map(parse)
+        .catchError(handler)
+        .collect()
+
+      expect(result).toEqual([1, -1])
+      expect(handler).toHaveBeenCalledWith(expect.any(Error), { index: 1 })
+    })
+
+    it('should be able to resume the source after the failing entry', () => {
+      const source = Iter.fromArray(records)
+      const resume = (start: number): Iter<number> =>
+        source
+          .skip(start)
+          .map(parse)
+          .catchError((_, { index }) => resume(start + index + 1))
+
+      expect(resume(0).collect()).toEqual([1, 3])
+    })
+
+    it('should stop when the handler returns nothing', () => {
+      const result = Iter.fromArray(records)
+        .map(parse)
+        .catchError(() => {})
+        .collect()
+
+      expect(result).toEqual([1])
+    })
+  })
+
+  describe('Iter.retry()', () => {
+    it('should iterate the source again after an error', () => {
+      let attempts = 0
+      const result = Iter.fromGenerator(function* () {
+        if (attempts++ < 2) {
+          throw new Error('Unavailable')
+        }
+
+        yield 1
+      })
+        .retry(2)
+        .collect()
+
+      expect(result).toEqual([1])
+      expect(attempts).toBe(3)
+    })
+
+    it('should rethrow once the retries are exhausted', () => {
+      const iter = Iter.fromArray(records).map(parse).retry(1)
+      expect(() => iter.collect()).toThrow('Invalid number x')
+    })
+  })
+
+  describe('Iter.context()', () => {
+    it('should report the label and index of the failing entry', () => {
+      const iter = Iter.fromArray(records).map(parse).context('parse')
+
+      expect(() => iter.collect()).toThrow(IterOperatorError)
+      expect(() => iter.collect()).toThrow(
+        'Iter: "parse" failed at entry 1: Invalid number x'
+      )
+    })
+
+    it('should not wrap errors twice', () => {
+      const iter = Iter.fromArray(records)
+        .map(parse)
+        .context('parse')
+        .map((x) => x * 2)
+        .context('double')
+
+      try {
+        iter.collect()
+      } catch (error) {
+        expect(error).toBeInstanceOf(IterOperatorError)
+        expect((error as IterOperatorError).operator).toBe('parse')
+        expect((error as IterOperatorError).original).toBeInstanceOf(Error)
+      }
+
+      expect.assertions(3)
+    })
+  })
+})
+
+describe('Iter - Cancellation', () => {
+  const source = (cleanup: () => void) =>
+    Iter.fromGenerator(function* () {
+      try {
+        yield* [1, 2, 3, 4]
+      } finally {
+        cleanup()
+      }
+    })
+
+  it('should stop pulling and close the source once aborted', () => {
+    const controller = new AbortController()
+    const cleanup = jest.fn()
+    const spy = jest.fn((x: number) => x === 2 && controller.abort('Stop'))
+
+    expect(() =>
+      source(cleanup).forEach(spy, { signal: controller.signal })
+    ).toThrow(AbortError)
+    expect(spy).toHaveBeenCalledTimes(2)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it('should throw right away for an aborted signal', () => {
+    const controller = new AbortController()
+    const cleanup = jest.fn()
+    controller.abort('Stop')
+
+    try {
+      source(cleanup).collect({ signal: controller.signal })
+    } catch (error) {
+      expect(error).toBeInstanceOf(AbortError)
+      expect((error as AbortError).reason).toBe('Stop')
+    }
+
+    expect(cleanup).not.toHaveBeenCalled()
+    expect.assertions(3)
+  })
+
+  it('should accept a signal in every terminal method', () => {
+    const controller = new AbortController()
+    const { signal } = controller
+    const numbers = Iter.fromGenerator(function* () {
+      yield* [1, 2, 3]
+    })
+    const pairs = numbers.map((x) => [x, x] as const)
+    const identity = (x: number) => x
+    controller.abort()
+
+    const terminals: (() => unknown)[] = [
+      () => numbers.groupBy(identity, { signal }),
+      () => numbers.countBy(identity, { signal }),
+      () => numbers.keyBy(identity, { signal }),
+      () => numbers.count({ signal }),
+      () => numbers.sum({ signal }),
+      () => numbers.product({ signal }),
+      () => numbers.average({ signal }),
+      () => numbers.variance({ signal }),
+      () => numbers.min({ signal }),
+      () => numbers.max({ signal }),
+      () => numbers.minBy(identity, { signal }),
+      () => numbers.maxBy(identity, { signal }),
+      () => numbers.first({ signal }),
+      () => numbers.last({ signal }),
+      () => numbers.nth(1, { signal }),
+      () => numbers.len({ signal }),
+      () => numbers.at(-1, { signal }),
+      () => numbers.find(Boolean, { signal }),
+      () => numbers.findIndex(Boolean, { signal }),
+      () => numbers.collectInto(Collectors.counting(), { signal }),
+      () => numbers.toSet({ signal }),
+      () => pairs.toMap({ signal }),
+      () => numbers.toMap(identity, identity, { signal }),
+      () => pairs.toObject({ signal }),
+      () => numbers.join(',', { signal }),
+      () => numbers.all(Boolean, { signal }),
+      () => numbers.any(Boolean, { signal }),
+    ]
+
+    for (const terminal of terminals) {
+      expect(terminal).toThrow(AbortError)
+    }
+  })
+
+  it('should close the source when a short-circuiting method is aborted', () => {
+    const controller = new AbortController()
+    const cleanup = jest.fn()
+    const found = () =>
+      source(cleanup).find(
+        (x) => {
+          if (x === 2) controller.abort()
+          return false
+        },
+        { signal: controller.signal }
+      )
+
+    expect(found).toThrow(AbortError)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop reading the source once aborted in Iter.last', () => {
+    const controller = new AbortController()
+    const cleanup = jest.fn()
+    const spy = jest.fn((x: number) => {
+      if (x === 2) controller.abort()
+      return x
+    })
+    const last = () =>
+      source(cleanup).map(spy).last({ signal: controller.signal })
+
+    expect(last).toThrow(AbortError)
+    expect(spy).toHaveBeenCalledTimes(2)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it('should accept a signal in reduce and fold', () => {
+    const { signal } = new AbortController()
+    const iter = Iter.fromArray([1, 2, 3])
+
+    expect(iter.reduce((a, b) => a + b, 0, { signal })).toBe(6)
+    expect(iter.fold(0, (a, b) => a + b, { signal })).toBe(6)
+  })
+
+  describe('Iter.takeUntilSignal()', () => {
+    it('should end once the signal is aborted', () => {
+      const controller = new AbortController()
+      const cleanup = jest.fn()
+      const result = source(cleanup)
+        .takeUntilSignal(controller.signal)
+        .inspect((x) => x === 2 && controller.abort())
+        .collect()
+
+      expect(result).toEqual([1, 2])
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+  })
+})
+
+describe('Iter - Text', () => {
+  describe('Iter.lines()', () => {
+    it('should split a text into lines', () => {
+      expect(Iter.lines('a\r\n\nb\n').collect()).toEqual(['a', '', 'b'])
+      expect(Iter.lines('a\nb').collect()).toEqual(['a', 'b'])
+      expect(Iter.lines('').collect()).toEqual([])
+    })
+
+    it('should join lines split across chunks', () => {
+      const chunks = ['a\nb', 'c\r', '\nd']
+
+      expect(Iter.lines(chunks).collect()).toEqual(['a', 'bc', 'd'])
+    })
+  })
+
+  describe('Iter.split()', () => {
+    it.each<[string, string | RegExp]>([
+      ['a,b,,c', ','],
+      ['a,b,', ','],
+      ['', ','],
+      ['abc', ''],
+      ['', ''],
+      ['a1b22c', /\d+/],
+      ['abc', /(?:)/],
+      ['1a2', /\d/],
+      ['', /x*/],
+      ['', /x/],
+    ])('should split %p around %p as String.split does', (text, sep) => {
+      expect(Iter.split(text, sep).collect()).toEqual(text.split(sep))
+    })
+
+    it('should split lazily', () => {
+      const text = 'a,'.repeat(1000)
+
+      expect(Iter.split(text, ',').take(2).collect()).toEqual(['a', 'a'])
+    })
+  })
+
+  describe('Iter.matches()', () => {
+    it('should type the named groups of a pattern', () => {
+      const years = Iter.matches(
+        '2024-01, 2025-02',
+        '(?<year>\\d{4})-(?<month>\\d{2})'
+      ).map((m) => `${m.groups.month}/${m.groups.year}`)
+
+      expect(years.collect()).toEqual(['01/2024', '02/2025'])
+    })
+
+    it('should behave as String.matchAll', () => {
+      const regex = /a*/u
+      const text = 'baa😀a'
+      const expected = [...text.matchAll(/a*/gu)].map((m) => [m[0], m.index])
+
+      const result = Iter.matches(text, regex).map((m) => [m[0], m.index])
+
+      expect(result.collect()).toEqual(expected)
+      expect(result.collect()).toEqual(expected)
+      expect(regex.lastIndex).toBe(0)
+    })
+
+    it('should run overlapping iterations independently', () => {
+      const matches = Iter.matches('a1b2c3', /\d/).map((m) => m[0])
+
+      expect(
+        matches
+          .zip(matches)
+          .map(([a, b]) => a + b)
+          .collect()
+      ).toEqual(['11', '22', '33'])
+      expect(() => Iter.matches('a', '(')).toThrow(SyntaxError)
+    })
+  })
+
+  describe('Iter.graphemes()', () => {
+    it('should keep combined characters together', () => {
+      const text = 'é👍🏽a'
+
+      expect(Iter.graphemes(text).collect()).toEqual(['é', '👍🏽', 'a'])
+    })
+  })
+
+  describe('Iter.decode()', () => {
+    it('should decode characters split across chunks', () => {
+      const bytes = new TextEncoder().encode('a€b')
+      const chunks = [bytes.slice(0, 2), bytes.slice(2, 3), bytes.slice(3)]
+
+      expect(Iter.fromArray(chunks).decode().collect()).toEqual(['a', '€b'])
+    })
+
+    it('should flush an incomplete character at the end', () => {
+      const chunks = [new Uint8Array([0x61, 0xe2, 0x82])]
+
+      expect(Iter.fromArray(chunks).decode().join('')).toBe('a�')
+    })
+
+    it('should throw on an unknown encoding', () => {
+      expect(() => Iter.fromArray<Uint8Array>([]).decode('nope')).toThrow(
+        'nope'
+      )
+    })
+  })
+})
+
+describe('Iter - Formats', () => {
+  describe('Iter.parseNdjson()', () => {
+    it('should parse values split across chunks', () => {
+      const chunks = Iter.fromArray(['{"id":1}\n{"id"', ':2}\n'])
+
+      expect(chunks.parseNdjson<{ id: number }>().collect()).toEqual([
+        { id: 1 },
+        { id: 2 },
+      ])
+    })
+
+    it('should throw a ParseError on invalid JSON', () => {
+      const values = Iter.fromArray(['1\n2\n', 'nope\n']).parseNdjson()
+
+      expect(() => values.collect()).toThrow(ParseError)
+      expect(values.take(2).collect()).toEqual([1, 2])
+    })
+  })
+
+  describe('Iter.parseCsv()', () => {
+    it('should parse records lazily', () => {
+      const chunks = ['id,name\n1,"Doe, J', 'ane"\n', '2,Roe\n', 'broken']
+      const records = Iter.fromArray(chunks).parseCsv().take(2)
+
+      expect(records.collect()).toEqual([
+        { id: '1', name: 'Doe, Jane' },
+        { id: '2', name: 'Roe' },
+      ])
+    })
+
+    it('should yield arrays without a header', () => {
+      const rows = Iter.fromArray(['a;b\n']).parseCsv({
+        header: false,
+        delimiter: ';',
+      })
+
+      expect(rows.collect()).toEqual([['a', 'b']])
+    })
+
+    it('should throw on invalid options right away', () => {
+      expect(() => Iter.fromArray<string>([]).parseCsv({ quote: '' })).toThrow(
+        RangeError
+      )
+    })
+  })
+
+  describe('Iter.toNdjson() and Iter.toCsv()', () => {
+    it('should round-trip through the parsers', () => {
+      const people = [
+        { id: '1', name: 'Doe, "Jane"' },
+        { id: '2', name: 'Multi\nline' },
+      ]
+
+      const csv = Iter.fromArray(people).toCsv().parseCsv()
+      const ndjson = Iter.fromArray(people).toNdjson().parseNdjson()
+
+      expect(csv.collect()).toEqual(people)
+      expect(ndjson.collect()).toEqual(people)
+    })
+
+    it('should throw on entries JSON cannot represent', () => {
+      expect(() => Iter.fromArray([undefined]).toNdjson().collect()).toThrow(
+        TypeError
+      )
+    })
+  })
+})
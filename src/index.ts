@@ -1,4 +1,215 @@
-const clone = <T>(source: T[]): T[] => [...source]
+import {
+  Access,
+  arrayAccess,
+  iterateAccess,
+  mapAccess,
+  reverseAccess,
+  sliceAccess,
+  stepAccess,
+  zipAccess,
+} from './access'
+import AsyncIter from './async-iter'
+import { abortable, SignalOptions, throwIfAborted } from './abort'
+import { Collector, Collectors } from './collectors'
+import {
+  ConsumedIterableError,
+  DuplicateKeyError,
+  IterOperatorError,
+} from './errors'
+import {
+  CsvOptions,
+  csvOptions,
+  CsvParser,
+  CsvRecord,
+  csvWriter,
+  NdjsonParser,
+  toNdjsonLine,
+} from './formats'
+import { drain, fuse, Fusion, FusedIterator, SKIP, Stage } from './fusion'
+import Heap from './heap'
+import LruSet from './lru-set'
+import type Pipeline from './pipeline'
+import { createRange, RangeOptions } from './range'
+import { err, ok, Result } from './result'
+import RingBuffer from './ring-buffer'
+import {
+  GroupNames,
+  LineSplitter,
+  matchText,
+  RegExpMatch,
+  splitLines,
+  splitText,
+  toGlobal,
+} from './text'
+
+export type { SignalOptions } from './abort'
+export { default as AsyncIter } from './async-iter'
+export type { Awaitable, MapConcurrentOptions } from './async-iter'
+export type { Collector } from './collectors'
+export { Collectors } from './collectors'
+export * from './errors'
+export type { CsvOptions, CsvRecord } from './formats'
+export { default as Pipeline } from './pipeline'
+export type { Sink, Transducer } from './pipeline'
+export { BigIntRange, NumberRange } from './range'
+export type { RangeOptions } from './range'
+export * from './result'
+export type { GroupNames, RegExpMatch } from './text'
+export { defaultScheduler } from './time'
+export type { Scheduler, TimeOptions } from './time'
+export { Iter }
+
+/**
+ * A tuple of `N` entries of type `T`, or an array when `N` isn't known at
+ * compile time.
+ */
+export type Tuple<T, N extends number, R extends T[] = []> = number extends N
+  ? T[]
+  : R['length'] extends N
+  ? R
+  : Tuple<T, N, [...R, T]>
+
+/**
+ * The string keys of an object type, as returned by `Object.keys`.
+ */
+export type StringKey<T> = Extract<keyof T, string>
+
+/**
+ * Options for `Iter.windows`.
+ */
+export type WindowOptions = {
+  /**
+   * Number of entries between the start of two consecutive windows. Defaults
+   * to `1`.
+   */
+  step?: number
+  /**
+   * Whether the trailing windows with less than `size` entries are yielded.
+   * Defaults to `false`.
+   */
+  partial?: boolean
+}
+
+/**
+ * A custom operator, turning a source iterable into a new iterable. It is
+ * called once per iteration.
+ */
+export type Operator<A, B> = (source: Iterable<A>) => Iterable<B>
+
+/**
+ * Options for `Iter.tee`.
+ */
+export type TeeOptions = {
+  /**
+   * Maximum number of entries a branch may lag behind the fastest one before
+   * an error is thrown. Defaults to `Infinity`.
+   */
+  bufferLimit?: number
+}
+
+/**
+ * Options for `Iter.takeUntil`.
+ */
+export type TakeUntilOptions = {
+  /**
+   * Whether the item matching the predicate is taken. Defaults to `false`.
+   */
+  inclusive?: boolean
+}
+
+/**
+ * Options for `Iter.keyBy`.
+ */
+export type KeyByOptions = SignalOptions & {
+  /**
+   * What to do when two entries share the same key: keep the `'first'` one,
+   * keep the `'last'` one (the default) or throw a `DuplicateKeyError`.
+   */
+  onDuplicate?: 'first' | 'last' | 'error'
+}
+
+/**
+ * Options for `Iter.variance`.
+ */
+export type VarianceOptions = SignalOptions & {
+  /**
+   * Whether the sample variance is computed instead of the population
+   * variance. Defaults to `false`.
+   */
+  sample?: boolean
+}
+
+/**
+ * Options for `Iter.distinct` and `Iter.distinctBy`.
+ */
+export type DistinctOptions = {
+  /**
+   * Maximum number of keys remembered. Once reached, the least recently seen
+   * key is forgotten, so it may be yielded again. Defaults to `Infinity`.
+   */
+  maxSize?: number
+}
+
+type PreviousDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+
+/**
+ * The type of the entries of an iterable of `T` flattened `D` levels deep.
+ * Strings are never flattened, and a `number` depth flattens every level.
+ */
+export type FlatIterable<T, D extends number = 1> = number extends D
+  ? T extends string
+    ? T
+    : T extends Iterable<infer U>
+    ? FlatIterable<U, D>
+    : T
+  : D extends 0
+  ? T
+  : T extends string
+  ? T
+  : T extends Iterable<infer U>
+  ? FlatIterable<U, PreviousDepth[D]>
+  : T
+
+/**
+ * Options for `Iter.traverse`.
+ */
+export type TraverseOptions = {
+  /**
+   * The order in which nodes are yielded: depth-first with parents before
+   * (`'dfs-pre'`, the default) or after (`'dfs-post'`) their children, or
+   * breadth-first (`'bfs'`).
+   */
+  order?: 'dfs-pre' | 'dfs-post' | 'bfs'
+  /**
+   * Whether nodes already visited are skipped, which is needed to walk graphs
+   * with cycles. Defaults to `false`.
+   */
+  unique?: boolean
+}
+
+const identity = <T>(item: T) => item
+
+const ascending = <T>(a: T, b: T) => (a < b ? -1 : a > b ? 1 : 0)
+
+const assertPositiveInteger = (name: string, value: number) => {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new RangeError(`${name} must be a positive integer, got ${value}`)
+  }
+}
+
+const closeAll = (iterators: Iterator<unknown>[]) => {
+  for (const iterator of iterators) {
+    iterator.return?.()
+  }
+}
+
+const isIterable = (value: unknown): value is Iterable<unknown> =>
+  typeof (value as Partial<Iterable<unknown>> | null)?.[Symbol.iterator] ===
+  'function'
+
+const isIterator = <A>(source: Iterable<A>): source is IterableIterator<A> =>
+  typeof (source as Partial<Iterator<A>>).next === 'function' &&
+  source[Symbol.iterator]() === (source as unknown)
 
 /**
  * # Iter
@@ -7,7 +218,84 @@ const clone = <T>(source: T[]): T[] => [...source]
  * map, filter, reduce and more.
  */
 export default class Iter<A> {
-  private constructor(private factory: () => Generator<A>) {}
+  protected constructor(
+    protected factory: () => Generator<A>,
+    protected fusion?: Fusion<A>,
+    protected access?: Access<A>
+  ) {}
+
+  /**
+   * Creates a new `Iter` of the same class as this one, so the methods of a
+   * subclass return instances of the subclass.
+   */
+  protected derive<B>(
+    factory: () => Generator<B>,
+    fusion?: Fusion<B>,
+    access?: Access<B>
+  ) {
+    const Species = this.constructor as new (
+      factory: () => Generator<B>,
+      fusion?: Fusion<B>,
+      access?: Access<B>
+    ) => Iter<B>
+
+    return new Species(factory, fusion, access)
+  }
+
+  /**
+   * Appends a stateless stage to the `Iter`, fusing it with the previous
+   * stateless stages so they run in a single loop. Stages that never skip
+   * entries keep the random access of the `Iter`.
+   */
+  private fused<B>(stage: Stage<A, B>, access?: Access<B>) {
+    const fusion = fuse(
+      this.fusion ?? { source: { kind: 'iterator', factory: this.factory } },
+      stage
+    )
+
+    return this.derive(() => new FusedIterator(fusion), fusion, access)
+  }
+
+  /**
+   * Random access to an iterable, when it is an array or a sized `Iter`.
+   */
+  private static accessOf(source: Iterable<unknown>) {
+    if (Array.isArray(source)) {
+      return arrayAccess(source)
+    }
+
+    return source instanceof Iter ? source.access : undefined
+  }
+
+  /**
+   * Runs the `Iter` to completion, taking the fast path of fused pipelines
+   * unless the run can be aborted.
+   */
+  private each(callback: (item: A) => void, signal?: AbortSignal) {
+    if (signal) {
+      for (const item of abortable(this.factory(), signal)) {
+        callback(item)
+      }
+
+      return
+    }
+
+    if (this.fusion) {
+      drain(this.fusion, callback)
+      return
+    }
+
+    for (const item of this.factory()) {
+      callback(item)
+    }
+  }
+
+  /**
+   * Iterates the `Iter`, checking the signal, if any, between entries.
+   */
+  private read(signal?: AbortSignal): Iterable<A> {
+    return signal ? abortable(this.factory(), signal) : this.factory()
+  }
 
   /**
    * # Iter.map
@@ -22,14 +310,9 @@ export default class Iter<A> {
    * @returns A new `Iter` containing the mapped entries of the original `Iter`.
    */
   map<B>(predicate: (item: A) => B) {
-    const context = this
-    const generator = function* () {
-      for (const item of context.factory()) {
-        yield predicate(item)
-      }
-    }
-
-    return new Iter(generator)
+    const access =
+      this.access && mapAccess(this.access, (item) => predicate(item))
+    return this.fused(predicate, access)
   }
 
   /**
@@ -42,11 +325,10 @@ export default class Iter<A> {
    * Iter.range(0, 4).forEach(item => console.log(item))
    *
    * @param callback A callback function execute over each entry of the `Iter` object.
+   * @param options A signal to abort the iteration with.
    */
-  forEach(callback: (item: A) => void) {
-    for (const item of this.factory()) {
-      callback(item)
-    }
+  forEach(callback: (item: A) => void, { signal }: SignalOptions = {}) {
+    this.each(callback, signal)
   }
 
   /**
@@ -61,23 +343,15 @@ export default class Iter<A> {
    * @param predicate A predicate function to filter the `Iter` entry.
    * @returns A new `Iter` containing the filtered entries of the original `Iter`.
    */
-  filter(predicate: (item: A) => boolean) {
-    const context = this
-    const factory = function* () {
-      for (const item of context.factory()) {
-        if (predicate(item)) {
-          yield item
-        }
-      }
-    }
-
-    return new Iter(factory)
+  filter(predicate: (item: A) => boolean): this {
+    return this.fused((item) => (predicate(item) ? item : SKIP)) as this
   }
 
   /**
    * # Iter.take
    *
-   * Utility method to take a number of items from an `Iter` object.
+   * Utility method to take a number of items from an `Iter` object. A
+   * fractional count is truncated, as `Array.prototype.slice` does.
    *
    * @example
    *
@@ -86,287 +360,2754 @@ export default class Iter<A> {
    * @param count Number of items to take from the `Iter` object.
    * @returns A new `Iter` containing the taken items.
    */
-  take(count: number) {
+  take(count: number): this {
     const context = this
+    const limit = Math.trunc(count) || 0
     const factory = function* () {
+      if (limit <= 0) {
+        return
+      }
+
       let i = 0
       for (const item of context.factory()) {
-        if (i >= count) {
+        yield item
+
+        if (++i >= limit) {
           break
         }
-
-        i++
-        yield item
       }
     }
 
-    return new Iter(factory)
+    const access =
+      this.access && sliceAccess(this.access, 0, Math.max(limit, 0))
+    return this.derive(factory, undefined, access) as this
   }
 
   /**
-   * # Iter.reduce
+   * # Iter.skip
    *
-   * Utility method to reduce an `Iter` object.
+   * Utility method to skip a number of items from an `Iter` object. A
+   * fractional count is truncated, as `Array.prototype.slice` does.
    *
    * @example
    *
-   * Iter.range(1, 10).reduce((total, item) => total + item, 0) // Number { 55 }
+   * Iter.range(0, 10).skip(7) // Iter<number> { 7, 8, 9 }
    *
-   * @param reducer A reducer function to reduce the `Iter` entry.
-   * @param initial The initial value to start the reduction.
-   * @returns The reduced value.
+   * @param count Number of items to skip from the `Iter` object.
+   * @returns A new `Iter` containing the remaining items.
    */
-  reduce<B>(reducer: (reduced: B, item: A) => B, initial: B) {
-    let acc = initial
-    for (const item of this.factory()) {
-      acc = reducer(acc, item)
+  skip(count: number): this {
+    const context = this
+    const limit = Math.trunc(count) || 0
+    const factory = function* () {
+      let i = 0
+      for (const item of context.factory()) {
+        if (i++ >= limit) {
+          yield item
+        }
+      }
     }
 
-    return acc
+    const access = this.access && sliceAccess(this.access, Math.max(limit, 0))
+    return this.derive(factory, undefined, access) as this
   }
 
   /**
-   * # Iter.pairwise
+   * # Iter.skipWhile
    *
-   * Utility method to pairwise an `Iter` object.
+   * Utility method to skip the items of an `Iter` object while they match a
+   * predicate. Every item after the first one not matching it is kept.
    *
    * @example
    *
-   * Iter.range(1, 10).pairwise() // Iter<[number, number]> { ... }
+   * Iter.fromArray([1, 2, 5, 1]).skipWhile(x => x < 3) // Iter<number> { 5, 1 }
    *
-   * @returns A new `Iter` containing the entries of the original `Iter` grouped
-   * in pairs.
+   * @param predicate A predicate function to test the `Iter` entry.
+   * @returns A new `Iter` containing the remaining items.
    */
-  pairwise() {
+  skipWhile(predicate: (item: A) => boolean): this {
     const context = this
     const factory = function* () {
-      let arr: A[] = []
+      let skipping = true
 
       for (const item of context.factory()) {
-        arr.push(item)
-
-        if (arr.length == 2) {
-          yield clone(arr) as [A, A]
-          arr.splice(0, 1)
+        if (skipping && predicate(item)) {
+          continue
         }
+
+        skipping = false
+        yield item
       }
     }
 
-    return new Iter<[A, A]>(factory)
+    return this.derive(factory) as this
   }
 
   /**
-   * # Iter.enumerate
+   * # Iter.takeWhile
    *
-   * Utility method to enumerate an `Iter` object.
+   * Utility method to take the items of an `Iter` object while they match a
+   * predicate. The source isn't read past the first item not matching it.
    *
    * @example
    *
-   * Iter.range(1, 10).enumerate() // Iter<[number, number]> { ... }
+   * Iter.range(0, Infinity).takeWhile(x => x < 3) // Iter<number> { 0, 1, 2 }
    *
-   * @returns A new `Iter` containing the entries of the original `Iter`
+   * @param predicate A predicate function to test the `Iter` entry.
+   * @returns A new `Iter` containing the taken items.
    */
-  enumerate() {
+  takeWhile(predicate: (item: A) => boolean): this {
     const context = this
     const factory = function* () {
-      let i = 0
       for (const item of context.factory()) {
-        yield [i, item] as [number, A]
-        i++
+        if (!predicate(item)) {
+          return
+        }
+
+        yield item
       }
     }
 
-    return new Iter(factory)
+    return this.derive(factory) as this
   }
 
   /**
-   * # Iter.fold
+   * # Iter.takeUntil
    *
-   * Utility method to fold an `Iter` object.
+   * Utility method to take the items of an `Iter` object until one matches a
+   * predicate. The matching item is only taken with the `inclusive` option.
    *
    * @example
    *
-   * Iter.range(0, 4).fold(0, (total, item) => total + item) // number { 6 }
+   * Iter.range(0, Infinity).takeUntil(x => x === 3) // Iter<number> { 0, 1, 2 }
+   * Iter.range(0, Infinity).takeUntil(x => x === 3, { inclusive: true }) // Iter<number> { 0, 1, 2, 3 }
    *
-   * @param initial The initial value to start folding .
-   * @param predicate A predicate function to fold the `Iter` entry.
-   * @returns A folded value from the `Iter` object.
+   * @param predicate A predicate function to test the `Iter` entry.
+   * @param options Whether the matching item is taken.
+   * @returns A new `Iter` containing the taken items.
    */
-  fold<B>(initial: B, predicate: (acc: B, item: A) => B) {
-    let acc = initial
+  takeUntil(
+    predicate: (item: A) => boolean,
+    { inclusive = false }: TakeUntilOptions = {}
+  ): this {
+    const context = this
+    const factory = function* () {
+      for (const item of context.factory()) {
+        if (predicate(item)) {
+          if (inclusive) {
+            yield item
+          }
 
-    for (const item of this.factory()) {
-      acc = predicate(acc, item)
+          return
+        }
+
+        yield item
+      }
     }
 
-    return acc
+    return this.derive(factory) as this
   }
 
   /**
-   * # Iter.scan
+   * # Iter.takeUntilSignal
+   *
+   * Utility method to take the items of an `Iter` object until a signal is
+   * aborted. The source isn't read any further once it is, and the `Iter`
+   * ends without an error.
    *
    * @example
    *
-   * Iter.range(1, 10).scan((total, item) => total + item, 0) // Iter<number> { ... }
+   * const controller = new AbortController()
    *
-   * @param scanner A scanner function to scan the `Iter` entry.
-   * @param initial The initial value to start the scan.
-   * @returns An iterator containing the scanned values.
+   * Iter.fromGenerator(poll).takeUntilSignal(controller.signal) // Iter<Event> { ... }
+   *
+   * @param signal The signal ending the `Iter`.
+   * @returns A new `Iter` containing the taken items.
    */
-  scan<B>(scanner: (scan: B, item: A) => B, initial: B) {
+  takeUntilSignal(signal: AbortSignal): this {
     const context = this
     const factory = function* () {
-      let val = initial
+      if (signal.aborted) {
+        return
+      }
+
       for (const item of context.factory()) {
-        val = scanner(val, item)
-        yield val
+        yield item
+
+        if (signal.aborted) {
+          return
+        }
       }
     }
 
-    return new Iter(factory)
+    return this.derive(factory) as this
   }
 
   /**
-   * # Iter.partition
+   * # Iter.stepBy
    *
-   * Utility method to partition an `Iter` object.
+   * Utility method to take every `step`-th item of an `Iter` object, starting
+   * with the first one.
    *
    * @example
    *
-   * const [even, odd] = Iter.range(1, 10).partition(x => x % 2 === 0) // [Iter<number>, Iter<number>]
+   * Iter.range(0, 10).stepBy(3) // Iter<number> { 0, 3, 6, 9 }
    *
-   * @param partitionFn A function to partition the `Iter` entry.
-   * @returns A tuple containing the partitioned `Iter` objects.
+   * @param step Distance between two taken items, a positive integer.
+   * @returns A new `Iter` containing the taken items.
    */
-  partition(partitionFn: (item: A) => boolean): [Iter<A>, Iter<A>] {
-    const context = this
-
-    const truthy = function* () {
-      for (const item of context.factory()) {
-        if (partitionFn(item)) {
-          yield item
-        }
-      }
-    }
+  stepBy(step: number): this {
+    assertPositiveInteger('step', step)
 
-    const falsy = function* () {
+    const context = this
+    const factory = function* () {
+      let i = 0
       for (const item of context.factory()) {
-        if (!partitionFn(item)) {
+        if (i++ % step === 0) {
           yield item
         }
       }
     }
 
-    return [new Iter(truthy), new Iter(falsy)]
+    const access = this.access && stepAccess(this.access, step)
+    return this.derive(factory, undefined, access) as this
   }
 
   /**
-   * # Iter.collect
+   * # Iter.slice
    *
-   * Utility method to collect an `Iter` object to an array.
+   * Utility method to take the items of an `Iter` object between two indexes,
+   * with the same bounds as `Array.prototype.slice`. Negative indexes count
+   * from the end: only that many items are buffered, and sized sources are
+   * read directly.
    *
    * @example
    *
-   * Iter.range(0, 4).collect() // number[] [0, 1, 2, 3]
+   * Iter.range(0, 10).slice(2, 5) // Iter<number> { 2, 3, 4 }
+   * Iter.range(0, 10).slice(-3) // Iter<number> { 7, 8, 9 }
    *
-   * @returns A collected array of the entries of the `Iter` object.
+   * @param start Index of the first item, counting from the end when negative.
+   * @param end Index after the last item, counting from the end when negative.
+   * @returns A new `Iter` containing the items in between.
    */
-  collect() {
-    return [...this.factory()]
+  slice(start: number, end = Infinity): this {
+    if (this.access) {
+      const access = sliceAccess(this.access, start, end)
+      return this.derive(() => iterateAccess(access), undefined, access) as this
+    }
+
+    const from = Math.trunc(start) || 0
+    const to = Math.trunc(end) || 0
+
+    if (from >= 0 || from === -Infinity) {
+      const first = Math.max(from, 0)
+      const rest = this.skip(first)
+      return to >= 0 ? rest.take(to - first) : rest.skipLast(-to)
+    }
+
+    const context = this
+    const factory = function* () {
+      const buffer = new RingBuffer<A>(-from)
+      let size = 0
+
+      context.each((item) => {
+        buffer.push(item)
+        size++
+      })
+
+      const first = size - buffer.length
+      const last = to < 0 ? size + to : Math.min(to, size)
+
+      yield* buffer.toArray().slice(0, Math.max(last - first, 0))
+    }
+
+    return this.derive(factory) as this
   }
 
   /**
-   * # Iter.inspect
+   * # Iter.takeLast
    *
-   * Utility method to inspect the entries of an `Iter` object.
+   * Utility method to take the last items of an `Iter` object. Only that many
+   * items are buffered while the source is read.
    *
    * @example
    *
-   * Iter.range(1, 10).inspect(console.log) // Iter<number> { ... }
+   * Iter.range(0, 10).takeLast(2) // Iter<number> { 8, 9 }
    *
-   * @param inspector A function to inspect every entry of the `Iter` object.
-   * @returns A new `Iter` with the entries of the original `Iter`.
+   * @param count Number of items to take from the end.
+   * @returns A new `Iter` containing the taken items.
    */
-  inspect(inspector: (item: A) => void) {
-    const context = this
-    const factory = function* () {
-      for (const item of context.factory()) {
-        inspector(item)
-        yield item
-      }
-    }
-
-    return new Iter(factory)
+  takeLast(count: number): this {
+    const limit = Math.trunc(count) || 0
+    return limit > 0 ? this.slice(-limit) : this.take(0)
   }
 
   /**
-   * # Iter.all
+   * # Iter.skipLast
    *
-   * Utility method to check if all of the entries of an `Iter` object matches a predicate.
+   * Utility method to skip the last items of an `Iter` object. Only that many
+   * items are buffered while the source is read.
    *
    * @example
    *
-   * Iter.range(0, 5).all(x => x < 10 === 0) // true
+   * Iter.range(0, 10).skipLast(7) // Iter<number> { 0, 1, 2 }
    *
-   * @param predicate A predicate function to filter the `Iter` entry.
+   * @param count Number of items to skip from the end.
+   * @returns A new `Iter` containing the remaining items.
+   */
+  skipLast(count: number): this {
+    const limit = Math.trunc(count) || 0
+
+    if (limit <= 0) {
+      return this.skip(0)
+    }
+
+    if (this.access) {
+      return this.slice(0, -limit)
+    }
+
+    if (limit === Infinity) {
+      return this.take(0)
+    }
+
+    const context = this
+    const factory = function* () {
+      const buffer = new RingBuffer<A>(limit)
+
+      for (const item of context.factory()) {
+        if (buffer.length === limit) {
+          yield buffer.shift() as A
+        }
+
+        buffer.push(item)
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.reduce
+   *
+   * Utility method to reduce an `Iter` object.
+   *
+   * @example
+   *
+   * Iter.range(1, 10).reduce((total, item) => total + item, 0) // Number { 55 }
+   *
+   * @param reducer A reducer function to reduce the `Iter` entry.
+   * @param initial The initial value to start the reduction.
+   * @param options A signal to abort the reduction with.
+   * @returns The reduced value.
+   */
+  reduce<B>(
+    reducer: (reduced: B, item: A) => B,
+    initial: B,
+    { signal }: SignalOptions = {}
+  ) {
+    let acc = initial
+    this.each((item) => {
+      acc = reducer(acc, item)
+    }, signal)
+
+    return acc
+  }
+
+  /**
+   * # Iter.pairwise
+   *
+   * Utility method to pairwise an `Iter` object.
+   *
+   * @example
+   *
+   * Iter.range(1, 10).pairwise() // Iter<[number, number]> { ... }
+   *
+   * @returns A new `Iter` containing the entries of the original `Iter` grouped
+   * in pairs.
+   */
+  pairwise() {
+    return this.windows(2)
+  }
+
+  /**
+   * # Iter.windows
+   *
+   * Utility method to slide a window of `size` entries over an `Iter` object.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).windows(3) // Iter<[number, number, number]> { [0, 1, 2], [1, 2, 3], [2, 3, 4] }
+   * Iter.range(0, 5).windows(3, { step: 2, partial: true }) // Iter<number[]> { [0, 1, 2], [2, 3, 4], [4] }
+   *
+   * @param size Number of entries of every window.
+   * @param options Optional step between windows and whether trailing
+   * partial windows are yielded.
+   * @returns A new `Iter` containing the windows.
+   */
+  windows<N extends number>(
+    size: N,
+    options?: WindowOptions & { partial?: false }
+  ): Iter<Tuple<A, N>>
+  windows(size: number, options: WindowOptions): Iter<A[]>
+  windows(size: number, { step = 1, partial = false }: WindowOptions = {}) {
+    assertPositiveInteger('Iter.windows: size', size)
+    assertPositiveInteger('Iter.windows: step', step)
+
+    const context = this
+    const factory = function* () {
+      const buffer = new RingBuffer<A>(size)
+      let count = 0
+      let start = 0
+
+      for (const item of context.factory()) {
+        buffer.push(item)
+        count++
+
+        if (count === start + size) {
+          yield buffer.toArray()
+          start += step
+        }
+      }
+
+      if (!partial) {
+        return
+      }
+
+      for (const offset = count - buffer.length; start < count; start += step) {
+        yield buffer.toArray().slice(start - offset)
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.chunks
+   *
+   * Utility method to split an `Iter` object into chunks of `size` entries.
+   * The last chunk may contain less entries.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).chunks(2) // Iter<number[]> { [0, 1], [2, 3], [4] }
+   *
+   * @param size Number of entries of every chunk.
+   * @returns A new `Iter` containing the chunks.
+   */
+  chunks(size: number) {
+    return this.windows(size, { step: size, partial: true })
+  }
+
+  /**
+   * # Iter.chunkWhile
+   *
+   * Utility method to group consecutive entries of an `Iter` object while a
+   * predicate holds between each entry and the previous one.
+   *
+   * @example
+   *
+   * Iter.fromArray([1, 2, 4, 5, 7]).chunkWhile((a, b) => b === a + 1) // Iter<number[]> { [1, 2], [4, 5], [7] }
+   *
+   * @param predicate A function receiving the previous and current entries.
+   * @returns A new `Iter` containing the chunks.
+   */
+  chunkWhile(predicate: (previous: A, current: A) => boolean) {
+    const context = this
+    const factory = function* () {
+      let chunk: A[] = []
+
+      for (const item of context.factory()) {
+        if (chunk.length > 0 && !predicate(chunk[chunk.length - 1], item)) {
+          yield chunk
+          chunk = []
+        }
+
+        chunk.push(item)
+      }
+
+      if (chunk.length > 0) {
+        yield chunk
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.splitAt
+   *
+   * Utility method to split an `Iter` object into its first `index` entries
+   * and the rest of them. The upstream is consumed only once.
+   *
+   * @example
+   *
+   * const [head, tail] = Iter.range(0, 5).splitAt(2) // [Iter<number> { 0, 1 }, Iter<number> { 2, 3, 4 }]
+   *
+   * @param index Number of entries of the first half.
+   * @returns A tuple containing both halves.
+   */
+  splitAt(index: number): [Iter<A>, Iter<A>] {
+    const {
+      branches: [head, tail],
+      detach,
+    } = this.enumerate().fork(2)
+
+    const before = function* () {
+      if (index <= 0) {
+        detach(0)
+        return
+      }
+
+      for (const [i, item] of head) {
+        if (i + 1 >= index) {
+          detach(0)
+          yield item
+          return
+        }
+
+        yield item
+      }
+    }
+
+    return [
+      this.derive(before),
+      tail.filter(([i]) => i >= index).map(([, item]) => item),
+    ]
+  }
+
+  /**
+   * # Iter.splitWhen
+   *
+   * Utility method to split an `Iter` object at the first entry matching a
+   * predicate, which starts the second half. The upstream is consumed only
+   * once and the predicate isn't called after the first match.
+   *
+   * @example
+   *
+   * const [head, tail] = Iter.range(0, 5).splitWhen(x => x > 2) // [Iter<number> { 0, 1, 2 }, Iter<number> { 3, 4 }]
+   *
+   * @param predicate A function to find the entry where the split happens.
+   * @returns A tuple containing both halves.
+   */
+  splitWhen(predicate: (item: A) => boolean): [Iter<A>, Iter<A>] {
+    let matched = false
+    const {
+      branches: [head, tail],
+      detach,
+    } = this.map((item) => {
+      matched ||= predicate(item)
+      return [matched, item] as const
+    }).fork(2)
+
+    const before = function* () {
+      for (const [matches, item] of head) {
+        if (matches) {
+          detach(0)
+          return
+        }
+
+        yield item
+      }
+    }
+
+    return [
+      this.derive(before),
+      tail.filter(([matches]) => matches).map(([, item]) => item),
+    ]
+  }
+
+  /**
+   * # Iter.enumerate
+   *
+   * Utility method to enumerate an `Iter` object.
+   *
+   * @example
+   *
+   * Iter.range(1, 10).enumerate() // Iter<[number, number]> { ... }
+   *
+   * @returns A new `Iter` containing the entries of the original `Iter`
+   */
+  enumerate() {
+    const context = this
+    const factory = function* () {
+      let i = 0
+      for (const item of context.factory()) {
+        yield [i, item] as [number, A]
+        i++
+      }
+    }
+
+    const access =
+      this.access &&
+      mapAccess(this.access, (item, index) => [index, item] as [number, A])
+
+    return this.derive(factory, undefined, access)
+  }
+
+  /**
+   * # Iter.flatMap
+   *
+   * Utility method to map every entry of an `Iter` object to an iterable and
+   * chain the results.
+   *
+   * @example
+   *
+   * Iter.fromArray(['a b', 'c']).flatMap(x => x.split(' ')) // Iter<string> { 'a', 'b', 'c' }
+   *
+   * @param predicate A predicate function mapping the entry to an iterable.
+   * @returns A new `Iter` containing the entries of every mapped iterable.
+   */
+  flatMap<B>(predicate: (item: A) => Iterable<B>) {
+    const context = this
+    const factory = function* () {
+      for (const item of context.factory()) {
+        yield* predicate(item)
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.flatten
+   *
+   * Utility method to flatten the nested iterables of an `Iter` object up to
+   * a given depth. Strings are kept as they are.
+   *
+   * @example
+   *
+   * Iter.fromArray([1, [2, [3]]]).flatten() // Iter<number | number[]> { 1, 2, [3] }
+   * Iter.fromArray([1, [2, [3]]]).flatten(Infinity) // Iter<number> { 1, 2, 3 }
+   *
+   * @param depth How many levels are flattened, `1` by default.
+   * @returns A new `Iter` containing the flattened entries.
+   */
+  flatten<D extends number = 1>(depth = 1 as D) {
+    const context = this
+    const flat = function* (item: unknown, depth: number): Generator<unknown> {
+      if (depth > 0 && typeof item !== 'string' && isIterable(item)) {
+        for (const inner of item) {
+          yield* flat(inner, depth - 1)
+        }
+
+        return
+      }
+
+      yield item
+    }
+
+    const factory = function* () {
+      for (const item of context.factory()) {
+        yield* flat(item, depth)
+      }
+    }
+
+    return this.derive(factory as () => Generator<FlatIterable<A, D>>)
+  }
+
+  /**
+   * # Iter.fold
+   *
+   * Utility method to fold an `Iter` object.
+   *
+   * @example
+   *
+   * Iter.range(0, 4).fold(0, (total, item) => total + item) // number { 6 }
+   *
+   * @param initial The initial value to start folding .
+   * @param predicate A predicate function to fold the `Iter` entry.
+   * @param options A signal to abort the fold with.
+   * @returns A folded value from the `Iter` object.
+   */
+  fold<B>(
+    initial: B,
+    predicate: (acc: B, item: A) => B,
+    options?: SignalOptions
+  ) {
+    return this.reduce(predicate, initial, options)
+  }
+
+  /**
+   * # Iter.scan
+   *
+   * @example
+   *
+   * Iter.range(1, 10).scan((total, item) => total + item, 0) // Iter<number> { ... }
+   *
+   * @param scanner A scanner function to scan the `Iter` entry.
+   * @param initial The initial value to start the scan.
+   * @returns An iterator containing the scanned values.
+   */
+  scan<B>(scanner: (scan: B, item: A) => B, initial: B) {
+    const context = this
+    const factory = function* () {
+      let val = initial
+      for (const item of context.factory()) {
+        val = scanner(val, item)
+        yield val
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.tee
+   *
+   * Utility method to split an `Iter` object into `n` independent branches.
+   * The upstream is consumed only once, and every entry is buffered for the
+   * branches that didn't read it yet, so the branches can be consumed in any
+   * interleaving. An upstream error reaches every branch once it has read
+   * its buffered entries. Each branch can only be iterated once.
+   *
+   * The upstream is closed as soon as every started branch has stopped, so a
+   * branch started afterwards can only read what was buffered for it.
+   *
+   * @example
+   *
+   * const [a, b] = Iter.range(0, 3).tee() // [Iter<number>, Iter<number>]
+   *
+   * @param n Number of branches to create.
+   * @param options Optional limit of the entries buffered for each branch.
+   * @returns An array with `n` `Iter` objects sharing the same upstream.
+   */
+  tee(n = 2, options?: TeeOptions) {
+    return this.fork(n, options).branches
+  }
+
+  /**
+   * Splits an `Iter` object into `n` branches, as `Iter.tee` does. A branch
+   * can also be detached, so it stops receiving entries without closing the
+   * upstream, which the other branches may still need.
+   */
+  private fork(n: number, { bufferLimit = Infinity }: TeeOptions = {}) {
+    const context = this
+    const buffers = Array.from({ length: n }, () => [] as A[])
+    const states = buffers.map(
+      (): 'idle' | 'running' | 'finished' | 'detached' => 'idle'
+    )
+    let source: Iterator<A> | undefined
+    let done = false
+    let closed = false
+    let failure: { error: unknown } | undefined
+
+    const receiving = (i: number) =>
+      states[i] === 'idle' || states[i] === 'running'
+
+    const pull = () => {
+      if (closed) {
+        throw new ConsumedIterableError(
+          'Iter.tee: upstream was closed once every started branch stopped'
+        )
+      }
+
+      source ??= context.factory()
+      let next: IteratorResult<A>
+
+      try {
+        next = source.next()
+      } catch (error) {
+        done = true
+        failure = { error }
+        throw error
+      }
+
+      if (next.done) {
+        done = true
+        return false
+      }
+
+      const full = buffers.some(
+        (buffer, i) => receiving(i) && buffer.length >= bufferLimit
+      )
+
+      if (full) {
+        throw new RangeError(
+          `Iter.tee: buffer limit of ${bufferLimit} entries exceeded`
+        )
+      }
+
+      buffers.forEach((buffer, i) => {
+        if (receiving(i)) {
+          buffer.push(next.value)
+        }
+      })
+
+      return true
+    }
+
+    const detach = (i: number) => {
+      states[i] = 'detached'
+      buffers[i].length = 0
+    }
+
+    const branches = buffers.map((buffer, i) => {
+      const factory = function* () {
+        if (states[i] !== 'idle') {
+          throw new ConsumedIterableError('Iter.tee: branch already consumed')
+        }
+
+        states[i] = 'running'
+
+        try {
+          while (buffer.length > 0 || (!done && pull())) {
+            yield buffer.shift() as A
+          }
+
+          if (failure) {
+            throw failure.error
+          }
+        } finally {
+          if (states[i] !== 'detached') {
+            states[i] = 'finished'
+            buffer.length = 0
+
+            if (source && !done && !closed && !states.includes('running')) {
+              closed = true
+              source.return?.()
+            }
+          }
+        }
+      }
+
+      return this.derive(factory)
+    })
+
+    return { branches, detach }
+  }
+
+  /**
+   * # Iter.share
+   *
+   * Utility method to share a single upstream iteration between every
+   * consumer of an `Iter` object. Each entry is delivered only once, so a
+   * consumer picks up where the previous one stopped. Stopping a consumer
+   * early does not close the upstream.
+   *
+   * @example
+   *
+   * const shared = Iter.range(0, 5).share()
+   *
+   * shared.take(2).collect() // number[] [0, 1]
+   * shared.collect() // number[] [2, 3, 4]
+   *
+   * @returns A new `Iter` reading from a shared upstream.
+   */
+  share(): this {
+    const context = this
+    let source: Iterator<A> | undefined
+
+    const factory = function* () {
+      source ??= context.factory()
+
+      for (let next = source.next(); !next.done; next = source.next()) {
+        yield next.value
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.cache
+   *
+   * Utility method to memoize the entries of an `Iter` object. The upstream
+   * is consumed lazily on the first iteration and every entry is recorded, so
+   * later iterations replay them without running the pipeline again. The
+   * upstream is kept open until it is exhausted, so it can be resumed later.
+   *
+   * @example
+   *
+   * const users = Iter.fromGenerator(fetchUsers).cache()
+   *
+   * users.take(2).collect() // Fetches only 2 users
+   * users.collect() // Replays 2 users and fetches the rest
+   *
+   * @returns A new `Iter` that replays the recorded entries.
+   */
+  cache(): this {
+    const context = this
+    const items: A[] = []
+    let source: Iterator<A> | undefined
+    let done = false
+
+    const factory = function* () {
+      for (let i = 0; ; i++) {
+        if (i < items.length) {
+          yield items[i]
+          continue
+        }
+
+        if (done) {
+          return
+        }
+
+        source ??= context.factory()
+        const next = source.next()
+
+        if (next.done) {
+          done = true
+          return
+        }
+
+        items.push(next.value)
+        yield next.value
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.partition
+   *
+   * Utility method to partition an `Iter` object. The upstream is consumed
+   * only once and `partitionFn` is called once per entry, so both halves can
+   * be consumed in any order. The entries of a half are buffered until it is
+   * read, which `bufferLimit` can bound. As with `Iter.tee`, each half can
+   * only be iterated once.
+   *
+   * @example
+   *
+   * const [even, odd] = Iter.range(1, 10).partition(x => x % 2 === 0) // [Iter<number>, Iter<number>]
+   *
+   * @param partitionFn A function to partition the `Iter` entry.
+   * @param options Optional limit of the entries buffered for each half.
+   * @returns A tuple containing the partitioned `Iter` objects.
+   */
+  partition(
+    partitionFn: (item: A) => boolean,
+    options?: TeeOptions
+  ): [Iter<A>, Iter<A>] {
+    const [truthy, falsy] = this.map(
+      (item) => [partitionFn(item), item] as const
+    ).tee(2, options)
+
+    return [
+      truthy.filter(([matches]) => matches).map(([, item]) => item),
+      falsy.filter(([matches]) => !matches).map(([, item]) => item),
+    ]
+  }
+
+  /**
+   * # Iter.tryMap
+   *
+   * Exposes a mapping interface to a `Iter` object that catches the errors
+   * thrown by the predicate, turning every entry into a `Result`.
+   *
+   * @example
+   *
+   * Iter.fromArray(['1', '{']).tryMap(JSON.parse) // Iter<Result<any, unknown>> { { ok: true, value: 1 }, { ok: false, error: SyntaxError } }
+   *
+   * @param predicate A predicate function to map over the `Iter` entry.
+   * @returns A new `Iter` containing a `Result` for every entry.
+   */
+  tryMap<B, E = unknown>(predicate: (item: A) => B) {
+    return this.map((item): Result<B, E> => {
+      try {
+        return ok(predicate(item))
+      } catch (error) {
+        return err(error as E)
+      }
+    })
+  }
+
+  /**
+   * # Iter.filterOk
+   *
+   * Utility method to keep the values of the successful `Result` entries of
+   * an `Iter` object, dropping the failed ones.
+   *
+   * @example
+   *
+   * Iter.fromArray(['1', '{']).tryMap(JSON.parse).filterOk() // Iter<any> { 1 }
+   *
+   * @returns A new `Iter` containing the successful values.
+   */
+  filterOk<T, E>(this: Iter<Result<T, E>>) {
+    return this.fused((result) => (result.ok ? result.value : SKIP))
+  }
+
+  /**
+   * # Iter.partitionResults
+   *
+   * Utility method to split the `Result` entries of an `Iter` object into the
+   * successful values and the errors, reading the source once.
+   *
+   * @example
+   *
+   * const [values, errors] = Iter.fromArray(['1', '{']).tryMap(JSON.parse).partitionResults()
+   *
+   * @param options How many entries a side may buffer ahead of the other.
+   * @returns A tuple with an `Iter` of values and an `Iter` of errors.
+   */
+  partitionResults<T, E>(
+    this: Iter<Result<T, E>>,
+    options?: TeeOptions
+  ): [Iter<T>, Iter<E>] {
+    const [oks, errs] = this.tee(2, options)
+
+    return [
+      oks.filterOk(),
+      errs.fused((result) => (result.ok ? SKIP : result.error)),
+    ]
+  }
+
+  /**
+   * # Iter.catchError
+   *
+   * Utility method to recover from an error thrown while iterating an `Iter`
+   * object. The handler receives the error and the index of the entry being
+   * produced, and returns the iterable to continue with, or nothing to stop.
+   * It may also rethrow the error.
+   *
+   * @example
+   *
+   * Iter.fromGenerator(readRecords).catchError((error, { index }) => {
+   *   console.error(`Record ${index} is corrupted`, error)
+   *   return []
+   * }) // Iter<Record> { ... }
+   *
+   * @param handler A function returning the continuation of the `Iter`.
+   * @returns A new `Iter` with the entries of the original `Iter`, followed by the continuation on error.
+   */
+  catchError<B = A>(
+    handler: (error: unknown, context: { index: number }) => Iterable<B> | void
+  ) {
+    const context = this
+    const factory = function* (): Generator<A | B, void, undefined> {
+      let index = 0
+      let continuation: Iterable<B> | void
+
+      try {
+        for (const item of context.factory()) {
+          yield item
+          index++
+        }
+
+        return
+      } catch (error) {
+        continuation = handler(error, { index })
+      }
+
+      if (continuation) {
+        yield* continuation
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.retry
+   *
+   * Utility method to iterate an `Iter` object again from the start when an
+   * error is thrown, up to a number of times. The entries yielded before the
+   * error are yielded again, so it is meant for sources that fail before
+   * yielding, such as opening a connection.
+   *
+   * @example
+   *
+   * Iter.fromGenerator(fetchPages).retry(3) // Iter<Page> { ... }
+   *
+   * @param times Maximum number of retries.
+   * @returns A new `Iter` with the entries of the original `Iter`.
+   */
+  retry(times: number): this {
+    if (!Number.isInteger(times) || times < 0) {
+      throw new RangeError(`times must be a non-negative integer, got ${times}`)
+    }
+
+    const context = this
+    const factory = function* () {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          yield* context.factory()
+          return
+        } catch (error) {
+          if (attempt >= times) {
+            throw error
+          }
+        }
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.context
+   *
+   * Utility method to label the steps of an `Iter` object before it. Errors
+   * thrown by those steps are wrapped in an `IterOperatorError` recording the
+   * label and the index of the entry being produced. Errors already wrapped
+   * by an inner `context` are left as they are.
+   *
+   * @example
+   *
+   * Iter.fromArray(lines).map(JSON.parse).context('parse').collect()
+   * // throws IterOperatorError: Iter: "parse" failed at entry 3: Unexpected token
+   *
+   * @param label The name reported for the failing steps.
+   * @returns A new `Iter` with the entries of the original `Iter`.
+   */
+  context(label: string): this {
+    const context = this
+    const factory = function* () {
+      let index = 0
+
+      try {
+        for (const item of context.factory()) {
+          yield item
+          index++
+        }
+      } catch (error) {
+        if (error instanceof IterOperatorError) {
+          throw error
+        }
+
+        throw new IterOperatorError(label, index, error)
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.onFinally
+   *
+   * Utility method to run a callback once an iteration over the `Iter` object
+   * ends, either because it was exhausted, stopped early (e.g. by `take`,
+   * `any` or a `break`) or because an error was thrown.
+   *
+   * @example
+   *
+   * Iter.fromGenerator(readLines).onFinally(() => console.log('Done!')) // Iter<string> { ... }
+   *
+   * @param callback A function to run when the iteration ends.
+   * @returns A new `Iter` with the entries of the original `Iter`.
+   */
+  onFinally(callback: () => void): this {
+    const context = this
+    const factory = function* () {
+      try {
+        yield* context.factory()
+      } finally {
+        callback()
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.distinct
+   *
+   * Utility method to yield the entries of an `Iter` object only once.
+   *
+   * @example
+   *
+   * Iter.fromArray([1, 2, 1, 3]).distinct() // Iter<number> { 1, 2, 3 }
+   *
+   * @param options Optional maximum number of entries remembered.
+   * @returns A new `Iter` containing the distinct entries.
+   */
+  distinct(options?: DistinctOptions): this {
+    return this.distinctBy(identity, options)
+  }
+
+  /**
+   * # Iter.distinctBy
+   *
+   * Utility method to yield the entries of an `Iter` object whose key wasn't
+   * seen yet.
+   *
+   * @example
+   *
+   * Iter.fromArray(users).distinctBy(user => user.email) // Iter<User> { ... }
+   *
+   * @param keyFn A function returning the key of an entry.
+   * @param options Optional maximum number of keys remembered.
+   * @returns A new `Iter` containing the distinct entries.
+   */
+  distinctBy<K>(
+    keyFn: (item: A) => K,
+    { maxSize = Infinity }: DistinctOptions = {}
+  ): this {
+    const context = this
+    const factory = function* () {
+      const seen = new LruSet<K>(maxSize)
+
+      for (const item of context.factory()) {
+        const key = keyFn(item)
+
+        if (!seen.has(key)) {
+          seen.add(key)
+          yield item
+        }
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.dedupAdjacent
+   *
+   * Utility method to drop the entries of an `Iter` object that are equal to
+   * the previous one.
+   *
+   * @example
+   *
+   * Iter.fromArray([1, 1, 2, 1, 1]).dedupAdjacent() // Iter<number> { 1, 2, 1 }
+   *
+   * @param equals Optional equality function, `===` by default.
+   * @returns A new `Iter` without consecutive duplicates.
+   */
+  dedupAdjacent(
+    equals: (previous: A, current: A) => boolean = (a, b) => a === b
+  ): this {
+    const context = this
+    const factory = function* () {
+      let first = true
+      let previous: A | undefined
+
+      for (const item of context.factory()) {
+        if (first || !equals(previous as A, item)) {
+          yield item
+        }
+
+        first = false
+        previous = item
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.union
+   *
+   * Utility method to yield the distinct entries of an `Iter` object followed
+   * by the distinct entries of another iterable that weren't yielded yet.
+   *
+   * @example
+   *
+   * Iter.fromArray([1, 2]).union([2, 3]) // Iter<number> { 1, 2, 3 }
+   *
+   * @param other The iterable to unite with.
+   * @param keyFn Optional function returning the key of an entry.
+   * @returns A new `Iter` containing the union of both sources.
+   */
+  union(other: Iterable<A>, keyFn: (item: A) => unknown = identity): this {
+    return this.concat(other).distinctBy(keyFn) as this
+  }
+
+  /**
+   * # Iter.intersect
+   *
+   * Utility method to yield the distinct entries of an `Iter` object that are
+   * also in another iterable. The other iterable is read entirely when the
+   * iteration starts, so it must be finite.
+   *
+   * @example
+   *
+   * Iter.range(0, Infinity).intersect([3, 1, 9]) // Iter<number> { 1, 3, 9 }
+   *
+   * @param other The iterable to intersect with.
+   * @param keyFn Optional function returning the key of an entry.
+   * @returns A new `Iter` containing the intersection of both sources.
+   */
+  intersect(other: Iterable<A>, keyFn: (item: A) => unknown = identity): this {
+    const context = this
+    const factory = function* () {
+      const keys = new Set(Iter.fromIterable(other).map(keyFn))
+
+      for (const item of context.factory()) {
+        if (keys.delete(keyFn(item))) {
+          yield item
+        }
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.difference
+   *
+   * Utility method to yield the distinct entries of an `Iter` object that
+   * aren't in another iterable. The other iterable is read entirely when the
+   * iteration starts, so it must be finite.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).difference([1, 3]) // Iter<number> { 0, 2, 4 }
+   *
+   * @param other The iterable to subtract.
+   * @param keyFn Optional function returning the key of an entry.
+   * @returns A new `Iter` containing the difference of both sources.
+   */
+  difference(other: Iterable<A>, keyFn: (item: A) => unknown = identity): this {
+    const context = this
+    const factory = function* () {
+      const keys = new Set(Iter.fromIterable(other).map(keyFn))
+
+      for (const item of context.factory()) {
+        const key = keyFn(item)
+
+        if (!keys.has(key)) {
+          keys.add(key)
+          yield item
+        }
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.groupBy
+   *
+   * Utility method to group the entries of an `Iter` object by a key.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).groupBy(x => x % 2 === 0 ? 'even' : 'odd') // Map<string, number[]> { even => [0, 2, 4], odd => [1, 3] }
+   *
+   * @param keyFn A function returning the key of an entry.
+   * @param options A signal to abort the iteration with.
+   * @returns A `Map` from every key to the entries sharing it.
+   */
+  groupBy<K>(keyFn: (item: A) => K, { signal }: SignalOptions = {}) {
+    const groups = new Map<K, A[]>()
+
+    for (const item of this.read(signal)) {
+      const key = keyFn(item)
+      const group = groups.get(key)
+
+      if (group) {
+        group.push(item)
+      } else {
+        groups.set(key, [item])
+      }
+    }
+
+    return groups
+  }
+
+  /**
+   * # Iter.countBy
+   *
+   * Utility method to count the entries of an `Iter` object by a key.
+   *
+   * @example
+   *
+   * Iter.fromIterable('hello').countBy(x => x) // Map<string, number> { h => 1, e => 1, l => 2, o => 1 }
+   *
+   * @param keyFn A function returning the key of an entry.
+   * @param options A signal to abort the iteration with.
+   * @returns A `Map` from every key to the number of entries sharing it.
+   */
+  countBy<K>(keyFn: (item: A) => K, { signal }: SignalOptions = {}) {
+    const counts = new Map<K, number>()
+
+    for (const item of this.read(signal)) {
+      const key = keyFn(item)
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+
+    return counts
+  }
+
+  /**
+   * # Iter.keyBy
+   *
+   * Utility method to index the entries of an `Iter` object by a key.
+   *
+   * @example
+   *
+   * Iter.fromArray(users).keyBy(user => user.id) // Map<number, User> { ... }
+   *
+   * @param keyFn A function returning the key of an entry.
+   * @param options Optional policy for entries sharing the same key, and a
+   * signal to abort the iteration with.
+   * @returns A `Map` from every key to its entry.
+   */
+  keyBy<K>(
+    keyFn: (item: A) => K,
+    { onDuplicate = 'last', signal }: KeyByOptions = {}
+  ) {
+    const entries = new Map<K, A>()
+
+    for (const item of this.read(signal)) {
+      const key = keyFn(item)
+
+      if (entries.has(key)) {
+        if (onDuplicate === 'error') {
+          throw new DuplicateKeyError(key)
+        }
+
+        if (onDuplicate === 'first') {
+          continue
+        }
+      }
+
+      entries.set(key, item)
+    }
+
+    return entries
+  }
+
+  /**
+   * # Iter.groupAdjacent
+   *
+   * Utility method to group consecutive entries of an `Iter` object sharing
+   * the same key. Only the current run is buffered, so it works on infinite
+   * sources.
+   *
+   * @example
+   *
+   * Iter.fromIterable('aabccc').groupAdjacent(x => x) // Iter<[string, string[]]> { ['a', ['a', 'a']], ['b', ['b']], ['c', ['c', 'c', 'c']] }
+   *
+   * @param keyFn A function returning the key of an entry.
+   * @returns A new `Iter` containing `[key, entries]` pairs for every run.
+   */
+  groupAdjacent<K>(keyFn: (item: A) => K) {
+    const context = this
+    const factory = function* () {
+      let run: [K, A[]] | undefined
+
+      for (const item of context.factory()) {
+        const key = keyFn(item)
+
+        if (run && Object.is(run[0], key)) {
+          run[1].push(item)
+          continue
+        }
+
+        if (run) {
+          yield run
+        }
+
+        run = [key, [item]]
+      }
+
+      if (run) {
+        yield run
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.count
+   *
+   * Utility method to count the entries of an `Iter` object.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).count() // number { 5 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns The number of entries.
+   */
+  count({ signal }: SignalOptions = {}) {
+    let count = 0
+
+    for (const _ of this.read(signal)) {
+      count++
+    }
+
+    return count
+  }
+
+  /**
+   * # Iter.sum
+   *
+   * Utility method to sum the entries of an `Iter<number>` object.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).sum() // number { 10 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns The sum of the entries, `0` if there is none.
+   */
+  sum(this: Iter<number>, options?: SignalOptions) {
+    return this.fold(0, (total, item) => total + item, options)
+  }
+
+  /**
+   * # Iter.product
+   *
+   * Utility method to multiply the entries of an `Iter<number>` object.
+   *
+   * @example
+   *
+   * Iter.range(1, 5).product() // number { 24 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns The product of the entries, `1` if there is none.
+   */
+  product(this: Iter<number>, options?: SignalOptions) {
+    return this.fold(1, (total, item) => total * item, options)
+  }
+
+  /**
+   * # Iter.average
+   *
+   * Utility method to compute the mean of the entries of an `Iter<number>`
+   * object.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).average() // number { 2 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns The mean of the entries, `undefined` if there is none.
+   */
+  average(this: Iter<number>, { signal }: SignalOptions = {}) {
+    let count = 0
+    let mean = 0
+
+    for (const item of this.read(signal)) {
+      count++
+      mean += (item - mean) / count
+    }
+
+    return count > 0 ? mean : undefined
+  }
+
+  /**
+   * # Iter.variance
+   *
+   * Utility method to compute the variance of the entries of an
+   * `Iter<number>` object, using Welford's online algorithm to keep it
+   * numerically stable.
+   *
+   * @example
+   *
+   * Iter.fromArray([2, 4, 4, 4, 5, 5, 7, 9]).variance() // number { 4 }
+   *
+   * @param options Optional flag to compute the sample variance, and a signal
+   * to abort the iteration with.
+   * @returns The variance of the entries, `undefined` if there are not enough
+   * entries.
+   */
+  variance(
+    this: Iter<number>,
+    { sample = false, signal }: VarianceOptions = {}
+  ) {
+    let count = 0
+    let mean = 0
+    let squares = 0
+
+    for (const item of this.read(signal)) {
+      count++
+      const delta = item - mean
+      mean += delta / count
+      squares += delta * (item - mean)
+    }
+
+    const degrees = sample ? count - 1 : count
+    return degrees > 0 ? squares / degrees : undefined
+  }
+
+  /**
+   * # Iter.min
+   *
+   * Utility method to find the smallest entry of an `Iter<number>` object.
+   *
+   * @example
+   *
+   * Iter.fromArray([3, 1, 2]).min() // number { 1 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns The smallest entry, `undefined` if there is none.
+   */
+  min(this: Iter<number>, options?: SignalOptions) {
+    return this.minBy(identity, options)
+  }
+
+  /**
+   * # Iter.max
+   *
+   * Utility method to find the largest entry of an `Iter<number>` object.
+   *
+   * @example
+   *
+   * Iter.fromArray([3, 1, 2]).max() // number { 3 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns The largest entry, `undefined` if there is none.
+   */
+  max(this: Iter<number>, options?: SignalOptions) {
+    return this.maxBy(identity, options)
+  }
+
+  /**
+   * # Iter.minBy
+   *
+   * Utility method to find the entry of an `Iter` object with the smallest
+   * key. The first one wins on ties.
+   *
+   * @example
+   *
+   * Iter.fromArray(users).minBy(user => user.age) // User { ... }
+   *
+   * @param keyFn A function returning the key of an entry.
+   * @param options A signal to abort the iteration with.
+   * @returns The entry with the smallest key, `undefined` if there is none.
+   */
+  minBy(keyFn: (item: A) => number | string, { signal }: SignalOptions = {}) {
+    let result: A | undefined
+    let min: number | string | undefined
+
+    for (const item of this.read(signal)) {
+      const key = keyFn(item)
+
+      if (min === undefined || key < min) {
+        result = item
+        min = key
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * # Iter.maxBy
+   *
+   * Utility method to find the entry of an `Iter` object with the largest
+   * key. The first one wins on ties.
+   *
+   * @example
+   *
+   * Iter.fromArray(users).maxBy(user => user.age) // User { ... }
+   *
+   * @param keyFn A function returning the key of an entry.
+   * @param options A signal to abort the iteration with.
+   * @returns The entry with the largest key, `undefined` if there is none.
+   */
+  maxBy(keyFn: (item: A) => number | string, { signal }: SignalOptions = {}) {
+    let result: A | undefined
+    let max: number | string | undefined
+
+    for (const item of this.read(signal)) {
+      const key = keyFn(item)
+
+      if (max === undefined || key > max) {
+        result = item
+        max = key
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * # Iter.first
+   *
+   * Utility method to get the first entry of an `Iter` object.
+   *
+   * @example
+   *
+   * Iter.range(1, Infinity).first() // number { 1 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns The first entry, `undefined` if there is none.
+   */
+  first(options?: SignalOptions) {
+    return this.nth(0, options)
+  }
+
+  /**
+   * # Iter.last
+   *
+   * Utility method to get the last entry of an `Iter` object. Sized sources,
+   * such as arrays and ranges, are read in constant time.
+   *
+   * @example
+   *
+   * Iter.range(1, 10).last() // number { 9 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns The last entry, `undefined` if there is none.
+   */
+  last({ signal }: SignalOptions = {}) {
+    throwIfAborted(signal)
+
+    if (this.access) {
+      const size = this.access.size()
+      return size > 0 ? this.access.get(size - 1) : undefined
+    }
+
+    let result: A | undefined
+
+    for (const item of this.read(signal)) {
+      result = item
+    }
+
+    return result
+  }
+
+  /**
+   * # Iter.nth
+   *
+   * Utility method to get the entry of an `Iter` object at an index.
+   *
+   * @example
+   *
+   * Iter.range(1, Infinity).nth(2) // number { 3 }
+   *
+   * @param index Index of the entry, starting from `0`.
+   * @param options A signal to abort the iteration with.
+   * @returns The entry, `undefined` if there are not enough entries.
+   */
+  nth(index: number, { signal }: SignalOptions = {}) {
+    let i = 0
+
+    for (const item of this.read(signal)) {
+      if (i++ === index) {
+        return item
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * # Iter.sizeHint
+   *
+   * Utility method to get the number of entries of an `Iter` object without
+   * iterating it. The size is known for arrays and ranges, and is kept by
+   * `map`, `inspect`, `enumerate`, `take`, `skip`, `stepBy`, `slice` and
+   * `zip`.
+   *
+   * @example
+   *
+   * Iter.fromArray([1, 2, 3]).map(x => x * 2).sizeHint() // number { 3 }
+   * Iter.fromArray([1, 2, 3]).filter(x => x > 1).sizeHint() // undefined
+   *
+   * @returns The number of entries, `undefined` if it isn't known.
+   */
+  sizeHint(): number | undefined {
+    return this.access?.size()
+  }
+
+  /**
+   * # Iter.len
+   *
+   * Utility method to get the number of entries of an `Iter` object. It runs
+   * in constant time when the size is known, see `Iter.sizeHint`, and counts
+   * the entries otherwise.
+   *
+   * @example
+   *
+   * Iter.range(0, 1000).len() // number { 1000 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns The number of entries.
+   */
+  len(options?: SignalOptions) {
+    throwIfAborted(options?.signal)
+    return this.access ? this.access.size() : this.count(options)
+  }
+
+  /**
+   * # Iter.at
+   *
+   * Utility method to get the entry of an `Iter` object at an index, counting
+   * from the end when negative. Sized sources are read in constant time, and
+   * the functions passed to `map` are only called for the entry read.
+   *
+   * @example
+   *
+   * Iter.range(0, 10).at(-2) // number { 8 }
+   *
+   * @param index Index of the entry.
+   * @param options A signal to abort the iteration with.
+   * @returns The entry, `undefined` if the index is out of bounds.
+   */
+  at(index: number, { signal }: SignalOptions = {}): A | undefined {
+    throwIfAborted(signal)
+
+    if (!Number.isInteger(index)) {
+      return undefined
+    }
+
+    if (this.access) {
+      const size = this.access.size()
+      const i = index < 0 ? index + size : index
+
+      return i >= 0 && i < size ? this.access.get(i) : undefined
+    }
+
+    if (index >= 0) {
+      return this.nth(index, { signal })
+    }
+
+    const buffer = new RingBuffer<A>(-index)
+    this.each((item) => buffer.push(item), signal)
+
+    return buffer.length === buffer.capacity ? buffer.at(0) : undefined
+  }
+
+  /**
+   * # Iter.reverse
+   *
+   * Utility method to reverse the order of the entries of an `Iter` object.
+   * Sized sources are read backwards, other sources are buffered first.
+   *
+   * @example
+   *
+   * Iter.range(0, 3).reverse() // Iter<number> { 2, 1, 0 }
+   *
+   * @returns A new `Iter` containing the entries in reverse order.
+   */
+  reverse(): this {
+    const context = this
+
+    if (this.access) {
+      const access = reverseAccess(this.access)
+      return this.derive(() => iterateAccess(access), undefined, access) as this
+    }
+
+    const factory = function* () {
+      const items = context.collect()
+
+      for (let i = items.length - 1; i >= 0; i--) {
+        yield items[i]
+      }
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.find
+   *
+   * Utility method to find the first entry of an `Iter` object matching a
+   * predicate.
+   *
+   * @example
+   *
+   * Iter.range(1, Infinity).find(x => x % 7 === 0) // number { 7 }
+   *
+   * @param predicate A predicate function to test the `Iter` entry.
+   * @param options A signal to abort the iteration with.
+   * @returns The first matching entry, `undefined` if there is none.
+   */
+  find<B extends A>(
+    predicate: (item: A) => item is B,
+    options?: SignalOptions
+  ): B | undefined
+  find(predicate: (item: A) => boolean, options?: SignalOptions): A | undefined
+  find(predicate: (item: A) => boolean, { signal }: SignalOptions = {}) {
+    for (const item of this.read(signal)) {
+      if (predicate(item)) {
+        return item
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * # Iter.findIndex
+   *
+   * Utility method to find the index of the first entry of an `Iter` object
+   * matching a predicate.
+   *
+   * @example
+   *
+   * Iter.range(1, Infinity).findIndex(x => x % 7 === 0) // number { 6 }
+   *
+   * @param predicate A predicate function to test the `Iter` entry.
+   * @param options A signal to abort the iteration with.
+   * @returns The index of the first matching entry, `-1` if there is none.
+   */
+  findIndex(predicate: (item: A) => boolean, { signal }: SignalOptions = {}) {
+    let i = 0
+
+    for (const item of this.read(signal)) {
+      if (predicate(item)) {
+        return i
+      }
+
+      i++
+    }
+
+    return -1
+  }
+
+  /**
+   * # Iter.sorted
+   *
+   * Utility method to sort the entries of an `Iter` object. The entries are
+   * only collected and sorted once the `Iter` is iterated, and the sort is
+   * stable.
+   *
+   * @example
+   *
+   * Iter.fromArray([3, 1, 2]).sorted() // Iter<number> { 1, 2, 3 }
+   *
+   * @param compare Optional comparator, the entries are sorted in ascending
+   * order by default.
+   * @returns A new `Iter` containing the sorted entries.
+   */
+  sorted(compare: (a: A, b: A) => number = ascending): this {
+    const context = this
+    const factory = function* () {
+      yield* context.collect().sort(compare)
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.topK
+   *
+   * Utility method to get the `k` entries of an `Iter` object that sort
+   * first, the same as `.sorted(compare).take(k)` but keeping only `k`
+   * entries in memory.
+   *
+   * @example
+   *
+   * Iter.fromArray([5, 1, 4, 2]).topK(2, (a, b) => b - a) // Iter<number> { 5, 4 }
+   *
+   * @param k Number of entries to keep.
+   * @param compare Optional comparator, the smallest entries are kept by
+   * default.
+   * @returns A new `Iter` containing the `k` entries in sorted order.
+   */
+  topK(k: number, compare: (a: A, b: A) => number = ascending): this {
+    const context = this
+    const limit = Math.trunc(k) || 0
+    const factory = function* () {
+      if (limit <= 0) {
+        return
+      }
+
+      // Ties are broken by position, so the result is as stable as a sort.
+      const order = (a: [number, A], b: [number, A]) =>
+        compare(a[1], b[1]) || a[0] - b[0]
+      const heap = new Heap<[number, A]>((a, b) => order(b, a))
+      let i = 0
+
+      for (const item of context.factory()) {
+        const entry: [number, A] = [i++, item]
+
+        if (heap.size < limit) {
+          heap.push(entry)
+        } else if (order(entry, heap.peek() as [number, A]) < 0) {
+          heap.replace(entry)
+        }
+      }
+
+      const result: A[] = []
+
+      while (heap.size > 0) {
+        result.push((heap.pop() as [number, A])[1])
+      }
+
+      yield* result.reverse()
+    }
+
+    return this.derive(factory) as this
+  }
+
+  /**
+   * # Iter.collect
+   *
+   * Utility method to collect an `Iter` object to an array.
+   *
+   * @example
+   *
+   * Iter.range(0, 4).collect() // number[] [0, 1, 2, 3]
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns A collected array of the entries of the `Iter` object.
+   */
+  collect({ signal }: SignalOptions = {}) {
+    const items: A[] = []
+    this.each((item) => {
+      items.push(item)
+    }, signal)
+
+    return items
+  }
+
+  /**
+   * # Iter.collectInto
+   *
+   * Utility method to aggregate the entries of an `Iter` object with a
+   * `Collector`, such as the ones in `Collectors`.
+   *
+   * @example
+   *
+   * Iter.range(0, 4).collectInto(Collectors.joining('-')) // string '0-1-2-3'
+   *
+   * @param collector The collector to run.
+   * @param options A signal to abort the iteration with.
+   * @returns The result of the collector.
+   */
+  collectInto<Acc, R>(
+    collector: Collector<A, Acc, R>,
+    { signal }: SignalOptions = {}
+  ) {
+    let acc = collector.supplier()
+    this.each((item) => {
+      acc = collector.accumulator(acc, item)
+    }, signal)
+
+    return collector.finisher(acc)
+  }
+
+  /**
+   * # Iter.toSet
+   *
+   * Utility method to collect an `Iter` object to a `Set`.
+   *
+   * @example
+   *
+   * Iter.fromArray([1, 2, 1]).toSet() // Set<number> { 1, 2 }
+   *
+   * @param options A signal to abort the iteration with.
+   * @returns A `Set` of the entries of the `Iter` object.
+   */
+  toSet(options?: SignalOptions) {
+    return this.collectInto(Collectors.toSet(), options)
+  }
+
+  /**
+   * # Iter.toMap
+   *
+   * Utility method to collect an `Iter` object to a `Map`, either from its
+   * `[key, value]` entries or by computing the key and value of every entry.
+   * The last entry wins on duplicate keys, see `Iter.keyBy` for other
+   * policies.
+   *
+   * @example
+   *
+   * Iter.entries({ a: 1 }).toMap() // Map<string, number> { 'a' => 1 }
+   * Iter.fromArray(users).toMap(user => user.id, user => user.name) // Map<number, string> { ... }
+   *
+   * @param keyFn A function returning the key of an entry.
+   * @param valueFn A function returning the value of an entry, the entry itself by default.
+   * @param options A signal to abort the iteration with.
+   * @returns A `Map` of the entries of the `Iter` object.
+   */
+  toMap<K, V>(this: Iter<readonly [K, V]>, options?: SignalOptions): Map<K, V>
+  toMap<K, V = A>(
+    keyFn: (item: A) => K,
+    valueFn?: (item: A) => V,
+    options?: SignalOptions
+  ): Map<K, V>
+  toMap(
+    keyFn?: ((item: A) => unknown) | SignalOptions,
+    valueFn: (item: A) => unknown = identity,
+    options?: SignalOptions
+  ) {
+    if (typeof keyFn !== 'function') {
+      const entries = Collectors.toMap(
+        (item: A) => (item as unknown as [unknown, unknown])[0],
+        (item: A) => (item as unknown as [unknown, unknown])[1]
+      )
+
+      return this.collectInto(entries, keyFn)
+    }
+
+    return this.collectInto(Collectors.toMap(keyFn, valueFn), options)
+  }
+
+  /**
+   * # Iter.toObject
+   *
+   * Utility method to collect an `Iter` object to a plain object, either from
+   * its `[key, value]` entries or by computing the key and value of every
+   * entry. The last entry wins on duplicate keys.
+   *
+   * @example
+   *
+   * Iter.fromArray([['a', 1]] as const).toObject() // { a: 1 }
+   * Iter.fromArray(users).toObject(user => user.id, user => user.name) // Record<number, string> { ... }
+   *
+   * @param keyFn A function returning the key of an entry.
+   * @param valueFn A function returning the value of an entry, the entry itself by default.
+   * @param options A signal to abort the iteration with.
+   * @returns An object with a property for every entry of the `Iter` object.
+   */
+  toObject<K extends PropertyKey, V>(
+    this: Iter<readonly [K, V]>,
+    options?: SignalOptions
+  ): Record<K, V>
+  toObject<K extends PropertyKey, V = A>(
+    keyFn: (item: A) => K,
+    valueFn?: (item: A) => V,
+    options?: SignalOptions
+  ): Record<K, V>
+  toObject(
+    keyFn?: ((item: A) => PropertyKey) | SignalOptions,
+    valueFn: (item: A) => unknown = identity,
+    options?: SignalOptions
+  ) {
+    if (typeof keyFn !== 'function') {
+      const entries = Collectors.toObject(
+        (item: A) => (item as unknown as [PropertyKey, unknown])[0],
+        (item: A) => (item as unknown as [PropertyKey, unknown])[1]
+      )
+
+      return this.collectInto(entries, keyFn)
+    }
+
+    return this.collectInto(Collectors.toObject(keyFn, valueFn), options)
+  }
+
+  /**
+   * # Iter.join
+   *
+   * Utility method to join the entries of an `Iter` object into a string, as
+   * `Array.prototype.join` does.
+   *
+   * @example
+   *
+   * Iter.range(0, 3).join(', ') // string '0, 1, 2'
+   *
+   * @param separator The string between two entries, `','` by default.
+   * @param options A signal to abort the iteration with.
+   * @returns The joined string.
+   */
+  join(separator = ',', options?: SignalOptions) {
+    return this.collectInto(Collectors.joining(separator), options)
+  }
+
+  /**
+   * # Iter.decode
+   *
+   * Utility method to decode an `Iter` object of byte chunks into text.
+   * Characters split across two chunks are decoded once complete, and empty
+   * strings aren't yielded.
+   *
+   * @example
+   *
+   * Iter.fromArray([new Uint8Array([0xe2, 0x82]), new Uint8Array([0xac])]).decode() // Iter<string> { '€' }
+   *
+   * @param encoding Encoding of the bytes, `'utf-8'` by default.
+   * @returns A new `Iter` containing the decoded text.
+   */
+  decode(this: Iter<Uint8Array>, encoding = 'utf-8') {
+    const context = this
+    // Fails early on an unknown encoding.
+    new TextDecoder(encoding)
+
+    const factory = function* () {
+      const decoder = new TextDecoder(encoding)
+
+      for (const chunk of context.factory()) {
+        const text = decoder.decode(chunk, { stream: true })
+
+        if (text) {
+          yield text
+        }
+      }
+
+      const rest = decoder.decode()
+
+      if (rest) {
+        yield rest
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.parseNdjson
+   *
+   * Utility method to parse an `Iter` object of text chunks as
+   * newline-delimited JSON, one value per line. Values split across chunks
+   * are put back together, and blank lines are skipped. A line that isn't
+   * valid JSON throws a `ParseError`.
+   *
+   * @example
+   *
+   * Iter.fromArray(['{"id":1}\n{"id"', ':2}\n']).parseNdjson<{ id: number }>() // Iter<{ id: number }> { { id: 1 }, { id: 2 } }
+   *
+   * @returns A new `Iter` containing the parsed values.
+   */
+  parseNdjson<T = unknown>(this: Iter<string>) {
+    const context = this
+    const factory = function* () {
+      const parser = new NdjsonParser()
+
+      for (const chunk of context.factory()) {
+        yield* parser.push(chunk) as T[]
+      }
+
+      yield* parser.flush() as T[]
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.parseCsv
+   *
+   * Utility method to parse an `Iter` object of text chunks as CSV. Records
+   * split across chunks are put back together, and quoted fields may contain
+   * delimiters, line breaks and doubled quotes. Records are objects keyed by
+   * the header row, or arrays of fields when `header` is `false`. A malformed
+   * record, or one without as many fields as the header, throws a
+   * `ParseError`.
+   *
+   * @example
+   *
+   * Iter.fromArray(['id,name\n1,"Doe, J', 'ane"\n']).parseCsv() // Iter<CsvRecord> { { id: '1', name: 'Doe, Jane' } }
+   * Iter.fromArray(['a;b\n']).parseCsv({ header: false, delimiter: ';' }) // Iter<string[]> { ['a', 'b'] }
+   *
+   * @param options The header, delimiter and quote of the CSV.
+   * @returns A new `Iter` containing the parsed records.
+   */
+  parseCsv(
+    this: Iter<string>,
+    options: CsvOptions & { header: false }
+  ): Iter<string[]>
+  parseCsv(this: Iter<string>, options?: CsvOptions): Iter<CsvRecord>
+  parseCsv(this: Iter<string>, options: CsvOptions = {}) {
+    const context = this
+    const checked = csvOptions(options)
+
+    const factory = function* () {
+      const parser = new CsvParser(checked)
+
+      for (const chunk of context.factory()) {
+        yield* parser.push(chunk)
+      }
+
+      yield* parser.flush()
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.toNdjson
+   *
+   * Utility method to serialize the entries of an `Iter` object as
+   * newline-delimited JSON, one line per entry. Entries JSON can't represent,
+   * such as `undefined`, throw a `TypeError`.
+   *
+   * @example
+   *
+   * Iter.fromArray([{ id: 1 }, { id: 2 }]).toNdjson() // Iter<string> { '{"id":1}\n', '{"id":2}\n' }
+   *
+   * @returns A new `Iter` containing the lines.
+   */
+  toNdjson() {
+    return this.map(toNdjsonLine)
+  }
+
+  /**
+   * # Iter.toCsv
+   *
+   * Utility method to serialize the entries of an `Iter` object as CSV, one
+   * line per entry. Entries are arrays of fields, or objects whose columns
+   * are the `header` option or the keys of the first entry. Fields containing
+   * delimiters, quotes or line breaks are quoted.
+   *
+   * @example
+   *
+   * Iter.fromArray([{ id: 1, name: 'Doe, Jane' }]).toCsv() // Iter<string> { 'id,name\n', '1,"Doe, Jane"\n' }
+   *
+   * @param options The header, delimiter and quote of the CSV. The header
+   * line is left out when `header` is `false`.
+   * @returns A new `Iter` containing the lines.
+   */
+  toCsv(
+    this: Iter<readonly unknown[] | Record<string, unknown>>,
+    options: CsvOptions = {}
+  ) {
+    const context = this
+    const checked = csvOptions(options)
+
+    const factory = function* () {
+      const write = csvWriter(checked)
+
+      for (const record of context.factory()) {
+        yield* write(record)
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.inspect
+   *
+   * Utility method to inspect the entries of an `Iter` object.
+   *
+   * @example
+   *
+   * Iter.range(1, 10).inspect(console.log) // Iter<number> { ... }
+   *
+   * @param inspector A function to inspect every entry of the `Iter` object.
+   * @returns A new `Iter` with the entries of the original `Iter`.
+   */
+  inspect(inspector: (item: A) => void): this {
+    const stage = (item: A) => {
+      inspector(item)
+      return item
+    }
+
+    return this.fused(
+      stage,
+      this.access && mapAccess(this.access, stage)
+    ) as this
+  }
+
+  /**
+   * # Iter.all
+   *
+   * Utility method to check if all of the entries of an `Iter` object matches a predicate.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).all(x => x < 10 === 0) // true
+   *
+   * @param predicate A predicate function to filter the `Iter` entry.
+   * @param options A signal to abort the iteration with.
    * @returns A boolean value indicating weather all entries matches the predicate.
    */
-  all(predicate: (item: A) => boolean) {
-    for (const item of this.factory()) {
+  all(predicate: (item: A) => boolean, { signal }: SignalOptions = {}) {
+    for (const item of this.read(signal)) {
       if (!predicate(item)) {
         return false
       }
     }
 
-    return true
+    return true
+  }
+
+  /**
+   * # Iter.any
+   *
+   * Utility method to check if any entry of an `Iter` object matches a predicate.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).any(x => x % 2 === 0) // true
+   *
+   * @param predicate Predicate function to filter the `Iter` entry.
+   * @param options A signal to abort the iteration with.
+   * @returns A boolean value indicating if any of the entries matches the predicate.
+   */
+  any(predicate: (item: A) => boolean, { signal }: SignalOptions = {}) {
+    for (const item of this.read(signal)) {
+      if (predicate(item)) {
+        return true
+      }
+    }
+
+    return false
+  }
+
+  /**
+   * # Iter.reject
+   *
+   * Utility method to reject any entry that doesn't match the predicate function.
+   *
+   * @example
+   *
+   * Iter.range(0, 5).reject(x => x % 2 === 0) // Iter<number> { ... }
+   *
+   * @param predicate A predicate function to filter the `Iter` entry.
+   * @returns An `Iter` that yields the values that didn't match the predicate
+   * function.
+   */
+  reject(predicate: (item: A) => boolean): this {
+    return this.fused((item) => (predicate(item) ? SKIP : item)) as this
+  }
+
+  /**
+   * # Iter.zip
+   *
+   * Utility method to zip an `Iter` object with other iterables. The
+   * resulting `Iter` stops as soon as any of the sources is exhausted.
+   *
+   * @example
+   *
+   * Iter.range(0, Infinity).zip('abc', [true, false]) // Iter<[number, string, boolean]> { ... }
+   *
+   * @param others Iterables to zip with the `Iter` object.
+   * @returns A new `Iter` containing tuples with an entry of every source.
+   */
+  zip<T extends unknown[]>(...others: { [K in keyof T]: Iterable<T[K]> }) {
+    const context = this
+    const factory = function* () {
+      const sources: Iterable<unknown>[] = [context, ...others]
+      const iterators = sources.map((source) => source[Symbol.iterator]())
+
+      try {
+        while (true) {
+          const entries: unknown[] = []
+
+          for (const iterator of iterators) {
+            const next = iterator.next()
+
+            if (next.done) {
+              return
+            }
+
+            entries.push(next.value)
+          }
+
+          yield entries as [A, ...T]
+        }
+      } finally {
+        closeAll(iterators)
+      }
+    }
+
+    const accesses = [this, ...others].map(Iter.accessOf)
+    const access = accesses.every(Boolean)
+      ? (zipAccess(accesses as Access<unknown>[]) as Access<[A, ...T]>)
+      : undefined
+
+    return this.derive(factory, undefined, access)
+  }
+
+  /**
+   * # Iter.zipLongest
+   *
+   * Utility method to zip an `Iter` object with other iterables until every
+   * source is exhausted, using `fill` in place of the missing entries.
+   *
+   * @example
+   *
+   * Iter.range(0, 3).zipLongest(null, 'ab') // Iter<[number | null, string | null]> { ... }
+   *
+   * @param fill Value used for the sources that are already exhausted.
+   * @param others Iterables to zip with the `Iter` object.
+   * @returns A new `Iter` containing tuples with an entry of every source.
+   */
+  zipLongest<F, T extends unknown[]>(
+    fill: F,
+    ...others: { [K in keyof T]: Iterable<T[K]> }
+  ) {
+    const context = this
+    const factory = function* () {
+      const sources: Iterable<unknown>[] = [context, ...others]
+      const iterators = sources.map((source) => source[Symbol.iterator]())
+      const done = iterators.map(() => false)
+
+      try {
+        while (true) {
+          const entries = iterators.map((iterator, i) => {
+            const next = done[i] ? undefined : iterator.next()
+
+            if (!next || next.done) {
+              done[i] = true
+              return fill
+            }
+
+            return next.value
+          })
+
+          if (!done.includes(false)) {
+            return
+          }
+
+          yield entries as [A | F, ...{ [K in keyof T]: T[K] | F }]
+        }
+      } finally {
+        closeAll(iterators)
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.cycle
+   *
+   * Utility method to create an `Iter` object repeating the entries of an
+   * iterable. The source is only read once, its entries are cached during the
+   * first pass and replayed afterwards.
+   *
+   * @example
+   *
+   * Iter.cycle([1, 2], 2) // Iter<number> { 1, 2, 1, 2 }
+   *
+   * @param source Iterable to repeat.
+   * @param times Number of passes over the entries, endless by default.
+   * @returns A new `Iter` object.
+   */
+  static cycle<T>(source: Iterable<T>, times = Infinity) {
+    const factory = function* () {
+      if (times <= 0) {
+        return
+      }
+
+      const seen: T[] = []
+
+      for (const item of source) {
+        seen.push(item)
+        yield item
+      }
+
+      if (seen.length === 0) {
+        return
+      }
+
+      for (let i = 1; i < times; i++) {
+        yield* seen
+      }
+    }
+
+    return new Iter(factory)
+  }
+
+  /**
+   * # Iter.generate
+   *
+   * Utility method to create an endless `Iter` object calling a function for
+   * every entry.
+   *
+   * @example
+   *
+   * Iter.generate(Math.random) // Iter<number> { ... }
+   * Iter.generate(i => i * i) // Iter<number> { 0, 1, 4, 9, ... }
+   *
+   * @param generator A function producing an entry from its index.
+   * @returns A new `Iter` object.
+   */
+  static generate<T>(generator: (index: number) => T) {
+    const factory = function* () {
+      for (let i = 0; ; i++) {
+        yield generator(i)
+      }
+    }
+
+    return new Iter(factory)
+  }
+
+  /**
+   * # Iter.iterate
+   *
+   * Utility method to create an endless `Iter` object starting at a seed and
+   * applying a function to the previous entry to get the next one.
+   *
+   * @example
+   *
+   * Iter.iterate(1, x => x * 2) // Iter<number> { 1, 2, 4, 8, ... }
+   *
+   * @param seed The first entry.
+   * @param next A function computing an entry from the previous one.
+   * @returns A new `Iter` object.
+   */
+  static iterate<T>(seed: T, next: (item: T) => T) {
+    const factory = function* () {
+      for (let item = seed; ; item = next(item)) {
+        yield item
+      }
+    }
+
+    return new Iter(factory)
+  }
+
+  /**
+   * # Iter.unfold
+   *
+   * Utility method to create an `Iter` object out of a state machine. The
+   * step function receives the current state and returns the entry to yield
+   * along with the next state, or `undefined` to stop.
+   *
+   * @example
+   *
+   * Iter.unfold([0, 1], ([a, b]) => [a, [b, a + b]]) // Iter<number> { 0, 1, 1, 2, 3, ... }
+   *
+   * @param seed The initial state.
+   * @param step A function computing an entry and the next state.
+   * @returns A new `Iter` object.
+   */
+  static unfold<S, T>(seed: S, step: (state: S) => [T, S] | undefined) {
+    const factory = function* () {
+      let state = seed
+
+      for (let next = step(state); next !== undefined; next = step(state)) {
+        const [item, following] = next
+        state = following
+        yield item
+      }
+    }
+
+    return new Iter(factory)
+  }
+
+  /**
+   * # Iter.concat
+   *
+   * Utility method to chain other iterables after the entries of an `Iter`
+   * object.
+   *
+   * @example
+   *
+   * Iter.range(0, 3).concat([3, 4], 'ab') // Iter<number | string> { ... }
+   *
+   * @param others Iterables to chain after the `Iter` object.
+   * @returns A new `Iter` containing the entries of every source in order.
+   */
+  concat<T extends unknown[]>(...others: { [K in keyof T]: Iterable<T[K]> }) {
+    const context = this
+    const factory = function* (): Generator<A | T[number], void, undefined> {
+      yield* context.factory()
+
+      for (const other of others) {
+        yield* other
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.interleave
+   *
+   * Utility method to alternate between the entries of an `Iter` object and
+   * other iterables. The resulting `Iter` stops as soon as any of the sources
+   * is exhausted.
+   *
+   * @example
+   *
+   * Iter.range(0, Infinity).interleave('ab') // Iter<number | string> { 0, 'a', 1, 'b', 2 }
+   *
+   * @param others Iterables to interleave with the `Iter` object.
+   * @returns A new `Iter` containing the interleaved entries.
+   */
+  interleave<T extends unknown[]>(
+    ...others: { [K in keyof T]: Iterable<T[K]> }
+  ) {
+    const context = this
+    const factory = function* () {
+      const sources: Iterable<A | T[number]>[] = [context, ...others]
+      const iterators = sources.map((source) => source[Symbol.iterator]())
+
+      try {
+        while (true) {
+          for (const iterator of iterators) {
+            const next = iterator.next()
+
+            if (next.done) {
+              return
+            }
+
+            yield next.value
+          }
+        }
+      } finally {
+        closeAll(iterators)
+      }
+    }
+
+    return this.derive(factory)
+  }
+
+  /**
+   * # Iter.roundRobin
+   *
+   * Utility method to alternate between the entries of an `Iter` object and
+   * other iterables, skipping the sources that are exhausted until every one
+   * of them is.
+   *
+   * @example
+   *
+   * Iter.range(0, 3).roundRobin('a') // Iter<number | string> { 0, 'a', 1, 2 }
+   *
+   * @param others Iterables to alternate with the `Iter` object.
+   * @returns A new `Iter` containing the alternated entries.
+   */
+  roundRobin<T extends unknown[]>(
+    ...others: { [K in keyof T]: Iterable<T[K]> }
+  ) {
+    const context = this
+    const factory = function* () {
+      const sources: Iterable<A | T[number]>[] = [context, ...others]
+      let iterators = sources.map((source) => source[Symbol.iterator]())
+
+      try {
+        while (iterators.length > 0) {
+          const active: Iterator<A | T[number]>[] = []
+
+          for (const iterator of iterators) {
+            const next = iterator.next()
+
+            if (!next.done) {
+              active.push(iterator)
+              yield next.value
+            }
+          }
+
+          iterators = active
+        }
+      } finally {
+        closeAll(iterators)
+      }
+    }
+
+    return this.derive(factory)
   }
 
   /**
-   * # Iter.any
+   * # Iter.pipe
    *
-   * Utility method to check if any entry of an `Iter` object matches a predicate.
+   * Utility method to apply a custom operator or a `Pipeline` to an `Iter`
+   * object, keeping the chaining ergonomics of the built-in methods.
    *
    * @example
    *
-   * Iter.range(0, 5).any(x => x % 2 === 0) // true
+   * const double = function* (source: Iterable<number>) {
+   *   for (const item of source) {
+   *     yield item
+   *     yield item
+   *   }
+   * }
    *
-   * @param predicate Predicate function to filter the `Iter` entry.
-   * @returns A boolean value indicating if any of the entries matches the predicate.
+   * Iter.range(0, 3).pipe(double).map(x => x * 10) // Iter<number> { 0, 0, 10, 10, 20, 20 }
+   *
+   * @param operator A function from a source iterable to a new iterable, or a
+   * `Pipeline` object.
+   * @returns A new `Iter` containing the entries produced by the operator.
    */
-  any(predicate: (item: A) => boolean) {
-    for (const item of this.factory()) {
-      if (predicate(item)) {
-        return true
-      }
+  pipe<B>(operator: Operator<A, B> | Pipeline<A, B>) {
+    const context = this
+    const apply: Operator<A, B> =
+      typeof operator === 'function'
+        ? operator
+        : (source) => operator.apply(source)
+
+    const factory = function* (): Generator<B, void, undefined> {
+      yield* apply(context)
     }
 
-    return false
+    return this.derive(factory)
   }
 
   /**
-   * # Iter.reject
+   * # Iter.toAsync
    *
-   * Utility method to reject any entry that doesn't match the predicate function.
+   * Utility method to turn an `Iter` object into an `AsyncIter` object.
    *
    * @example
    *
-   * Iter.range(0, 5).reject(x => x % 2 === 0) // Iter<number> { ... }
+   * Iter.range(0, 5).toAsync().map(async x => x * 2) // AsyncIter<number> { ... }
    *
-   * @param predicate A predicate function to filter the `Iter` entry.
-   * @returns An `Iter` that yields the values that didn't match the predicate
-   * function.
+   * @returns A new `AsyncIter` object yielding the entries of the `Iter`.
    */
-  reject(predicate: (item: A) => boolean) {
-    const context = this
-    const factory = function* () {
-      for (const item of context.factory()) {
-        if (!predicate(item)) {
-          yield item
-        }
-      }
-    }
-
-    return new Iter(factory)
+  toAsync() {
+    return AsyncIter.fromIterable(this)
   }
 
   /**
@@ -386,6 +3127,47 @@ export default class Iter<A> {
     return this.factory()
   }
 
+  /**
+   * # Iter.extend
+   *
+   * Utility method to add custom methods to every `Iter` object. Methods are
+   * called with the `Iter` as `this`, and their types are declared through
+   * module augmentation. Overriding an existing method throws a `TypeError`.
+   *
+   * @example
+   *
+   * declare module 'iter-ts' {
+   *   interface Iter<A> {
+   *     double(this: Iter<number>): Iter<number>
+   *   }
+   * }
+   *
+   * Iter.extend({
+   *   double(this: Iter<number>) {
+   *     return this.map(x => x * 2)
+   *   },
+   * })
+   *
+   * Iter.range(0, 3).double() // Iter<number> { 0, 2, 4 }
+   *
+   * @param methods An object mapping method names to their implementation.
+   */
+  static extend(
+    methods: Record<string, (this: Iter<never>, ...args: never[]) => unknown>
+  ) {
+    for (const [name, method] of Object.entries(methods)) {
+      if (name in Iter.prototype) {
+        throw new TypeError(`Iter.extend: method "${name}" already exists`)
+      }
+
+      Object.defineProperty(Iter.prototype, name, {
+        value: method,
+        writable: true,
+        configurable: true,
+      })
+    }
+  }
+
   /**
    * # Iter.fromArray
    *
@@ -399,44 +3181,105 @@ export default class Iter<A> {
    * @returns A new `Iter` object.
    */
   static fromArray<T>(source: T[]) {
-    const factory = function* () {
-      for (let i = 0; i < source.length; i++) {
-        yield source[i]
-      }
-    }
-
-    return new Iter(factory)
+    const fusion: Fusion<T> = { source: { kind: 'array', array: source } }
+    return new Iter(
+      () => new FusedIterator(fusion),
+      fusion,
+      arrayAccess(source)
+    )
   }
 
   /**
    * # Iter.range
    *
-   * Utility method to create an `Iter` object from a range.
+   * Utility method to create an `Iter` object from a range of numbers or
+   * bigints. The interval defaults to `1` or `-1` depending on the direction
+   * of the range, and an interval that is zero or moving away from `end`
+   * throws a `RangeError`. Every entry is computed from its index, so float
+   * intervals don't drift. Use a `NumberRange` or a `BigIntRange` to query a
+   * range without iterating it.
    *
    * @example
    *
    * Iter.range(1, 10) // Iter<number> { ... }
+   * Iter.range(10, 0, -2) // Iter<number> { 10, 8, 6, 4, 2 }
+   * Iter.range(0, 1, 0.25, { inclusive: true }) // Iter<number> { 0, 0.25, 0.5, 0.75, 1 }
+   * Iter.range(BigInt(0), BigInt(3)) // Iter<bigint> { 0n, 1n, 2n }
    *
    * @param start Start value of the range
    * @param end End value of the range
    * @param interval Optional interval of every step in the range
+   * @param options Whether `end` is included in the range
    * @returns A new `Iter` object.
    */
-  static range(start: number, end: number, interval = 1) {
-    const factory = function* () {
-      const isAsc = start < end
+  static range(
+    start: number,
+    end: number,
+    interval?: number,
+    options?: RangeOptions
+  ): Iter<number>
+  static range(start: number, end: number, options: RangeOptions): Iter<number>
+  static range(
+    start: bigint,
+    end: bigint,
+    interval?: bigint,
+    options?: RangeOptions
+  ): Iter<bigint>
+  static range(start: bigint, end: bigint, options: RangeOptions): Iter<bigint>
+  static range<T extends number | bigint>(
+    start: T,
+    end: T,
+    interval?: T | RangeOptions,
+    options?: RangeOptions
+  ) {
+    const range = createRange(start, end, interval, options)
+    const size = Number(range.length)
+    const access: Access<T> | undefined = Number.isFinite(size)
+      ? { size: () => size, get: (index) => range.at(index) as T }
+      : undefined
 
-      if (isAsc) {
-        for (let i = start; i < end; i += interval) {
-          yield i
-        }
+    return new Iter(
+      () => range[Symbol.iterator]() as Generator<T>,
+      undefined,
+      access
+    )
+  }
+
+  /**
+   * # Iter.linspace
+   *
+   * Utility method to create an `Iter` object with `count` evenly spaced
+   * numbers between `start` and `end`, both included.
+   *
+   * @example
+   *
+   * Iter.linspace(0, 1, 5) // Iter<number> { 0, 0.25, 0.5, 0.75, 1 }
+   *
+   * @param start First entry.
+   * @param end Last entry.
+   * @param count Number of entries, a positive integer.
+   * @returns A new `Iter` object.
+   */
+  static linspace(start: number, end: number, count: number) {
+    assertPositiveInteger('count', count)
+
+    if (!Number.isFinite(start) || !Number.isFinite(end)) {
+      throw new RangeError(
+        `linspace bounds must be finite numbers, got ${start} and ${end}`
+      )
+    }
 
+    const factory = function* () {
+      if (count === 1) {
+        yield start
         return
       }
 
-      for (let i = start; i > end; i -= interval) {
-        yield i
+      for (let i = 0; i < count - 1; i++) {
+        yield start + ((end - start) * i) / (count - 1)
       }
+
+      yield end
     }
 
     return new Iter(factory)
@@ -451,10 +3294,21 @@ export default class Iter<A> {
    *
    * Iter.fromIterable('What?') // Iter<string> { ... }
    *
+   * If the source is an iterator, such as a generator object or the result of
+   * `map.entries()`, it can only be iterated once, see `Iter.once`.
+   *
    * @param source Source iterable to turn into an `Iter` object
    * @returns A new `Iter` object.
    */
   static fromIterable<A>(source: Iterable<A>) {
+    if (isIterator(source)) {
+      return Iter.once(source)
+    }
+
+    if (Array.isArray(source)) {
+      return Iter.fromArray<A>(source)
+    }
+
     const factory = function* () {
       for (const item of source) {
         yield item
@@ -464,6 +3318,109 @@ export default class Iter<A> {
     return new Iter(factory)
   }
 
+  /**
+   * # Iter.once
+   *
+   * Utility method to create an `Iter` object from a source that can only be
+   * iterated once. Iterating it again throws a `ConsumedIterableError`
+   * instead of silently yielding nothing, use `.cache()` to replay it.
+   *
+   * @example
+   *
+   * const entries = Iter.once(map.entries())
+   *
+   * entries.collect() // [[key, value], ...]
+   * entries.collect() // throws ConsumedIterableError
+   *
+   * @param source Source iterable to turn into an `Iter` object
+   * @returns A new `Iter` object.
+   */
+  static once<A>(source: Iterable<A>) {
+    let consumed = false
+
+    const factory = function* () {
+      if (consumed) {
+        throw new ConsumedIterableError()
+      }
+
+      consumed = true
+      yield* source
+    }
+
+    return new Iter(factory)
+  }
+
+  /**
+   * # Iter.entries
+   *
+   * Utility method to create an `Iter` object from the entries of a `Map` or
+   * the own enumerable properties of an object. The keys are read when an
+   * iteration starts, so later changes to the source are picked up.
+   *
+   * @example
+   *
+   * Iter.entries({ a: 1, b: 2 }) // Iter<['a' | 'b', number]> { ... }
+   *
+   * @param source A `Map` or an object to read the entries from.
+   * @returns A new `Iter` object.
+   */
+  static entries<K, V>(source: ReadonlyMap<K, V>): Iter<[K, V]>
+  static entries<T extends object>(
+    source: T
+  ): Iter<[StringKey<T>, T[StringKey<T>]]>
+  static entries(source: object) {
+    const factory = function* () {
+      if (source instanceof Map) {
+        yield* source.entries()
+        return
+      }
+
+      for (const key of Object.keys(source)) {
+        yield [key, source[key as keyof typeof source]]
+      }
+    }
+
+    return new Iter(factory)
+  }
+
+  /**
+   * # Iter.keys
+   *
+   * Utility method to create an `Iter` object from the keys of a `Map` or the
+   * own enumerable properties of an object.
+   *
+   * @example
+   *
+   * Iter.keys({ a: 1, b: 2 }) // Iter<'a' | 'b'> { ... }
+   *
+   * @param source A `Map` or an object to read the keys from.
+   * @returns A new `Iter` object.
+   */
+  static keys<K>(source: ReadonlyMap<K, unknown>): Iter<K>
+  static keys<T extends object>(source: T): Iter<StringKey<T>>
+  static keys(source: object) {
+    return Iter.entries(source).map(([key]) => key)
+  }
+
+  /**
+   * # Iter.values
+   *
+   * Utility method to create an `Iter` object from the values of a `Map` or
+   * the own enumerable properties of an object.
+   *
+   * @example
+   *
+   * Iter.values({ a: 1, b: 2 }) // Iter<number> { ... }
+   *
+   * @param source A `Map` or an object to read the values from.
+   * @returns A new `Iter` object.
+   */
+  static values<V>(source: ReadonlyMap<unknown, V>): Iter<V>
+  static values<T extends object>(source: T): Iter<T[StringKey<T>]>
+  static values(source: object) {
+    return Iter.entries(source).map(([, value]) => value)
+  }
+
   /**
    * # Iter.fromGenerator
    *
@@ -484,20 +3441,60 @@ export default class Iter<A> {
     return new Iter(factory)
   }
 
+  /**
+   * # Iter.using
+   *
+   * Utility method to create an `Iter` object that owns a resource. The
+   * resource is acquired when an iteration starts and released when it ends,
+   * even if it is stopped early or an error is thrown.
+   *
+   * @example
+   *
+   * Iter.using(
+   *   () => fs.openSync('data.txt', 'r'),
+   *   (fd) => fs.closeSync(fd),
+   *   (fd) => readChunks(fd)
+   * ) // Iter<Buffer> { ... }
+   *
+   * @param acquire A function that acquires the resource.
+   * @param release A function that releases the resource.
+   * @param build A function that builds an iterable out of the resource.
+   * @returns A new `Iter` object.
+   */
+  static using<R, A>(
+    acquire: () => R,
+    release: (resource: R) => void,
+    build: (resource: R) => Iterable<A>
+  ) {
+    const factory = function* () {
+      const resource = acquire()
+
+      try {
+        yield* build(resource)
+      } finally {
+        release(resource)
+      }
+    }
+
+    return new Iter(factory)
+  }
+
   /**
    * # Iter.repeat
    *
-   * Utility method to create an `Iter` object with `n` repetitions of a given item.
+   * Utility method to create an `Iter` object with `n` repetitions of a given
+   * item, or repeating it endlessly when `n` is omitted.
    *
    * @example
    *
    * Iter.repeat(1, 5) // Iter<number> { ... }
+   * Iter.repeat(0).take(3) // Iter<number> { 0, 0, 0 }
    *
    * @param item Item to repeat in the `Iter` object.
-   * @param repetitions Number of repetitions of the item.
+   * @param repetitions Number of repetitions of the item, endless by default.
    * @returns A new `Iter` object.
    */
-  static repeat<T>(item: T, repetitions: number) {
+  static repeat<T>(item: T, repetitions = Infinity) {
     const factory = function* () {
       for (let i = 0; i < repetitions; i++) {
         yield item
@@ -506,4 +3503,249 @@ export default class Iter<A> {
 
     return new Iter(factory)
   }
+
+  /**
+   * # Iter.lines
+   *
+   * Utility method to create an `Iter` object with the lines of a text, or
+   * of text arriving in chunks such as a decoded stream. Lines end with `\n`
+   * or `\r\n`, and the line break isn't part of the line.
+   *
+   * @example
+   *
+   * Iter.lines('a\r\nb\n') // Iter<string> { 'a', 'b' }
+   * Iter.lines(['a\nb', 'c\n']) // Iter<string> { 'a', 'bc' }
+   *
+   * @param text A text, or an iterable of chunks of text.
+   * @returns A new `Iter` object.
+   */
+  static lines(text: string | Iterable<string>) {
+    const factory = function* () {
+      if (typeof text === 'string') {
+        yield* splitLines(text)
+        return
+      }
+
+      const splitter = new LineSplitter()
+
+      for (const chunk of text) {
+        yield* splitter.push(chunk)
+      }
+
+      yield* splitter.flush()
+    }
+
+    return new Iter(factory)
+  }
+
+  /**
+   * # Iter.split
+   *
+   * Utility method to create an `Iter` object with the parts of a text
+   * around a separator, as `String.prototype.split` does. The text is split
+   * lazily, and the capture groups of a regular expression separator aren't
+   * included.
+   *
+   * @example
+   *
+   * Iter.split('a,b,,c', ',') // Iter<string> { 'a', 'b', '', 'c' }
+   * Iter.split('a1b22c', /\d+/) // Iter<string> { 'a', 'b', 'c' }
+   *
+   * @param text The text to split.
+   * @param separator A string, or a regular expression matching separators.
+   * @returns A new `Iter` object.
+   */
+  static split(text: string, separator: string | RegExp) {
+    return new Iter(() => splitText(text, separator))
+  }
+
+  /**
+   * # Iter.matches
+   *
+   * Utility method to create an `Iter` object with the matches of a regular
+   * expression in a text, as `String.prototype.matchAll` does. The global
+   * flag is implied. When the pattern is given as a string literal, the
+   * `groups` of every match are typed after its named capture groups.
+   *
+   * @example
+   *
+   * Iter.matches('2024-01, 2025-02', '(?<year>\\d{4})-(?<month>\\d{2})').map(
+   *   m => m.groups.year
+   * ) // Iter<string> { '2024', '2025' }
+   * Iter.matches('a1b2', /\d/) // Iter<RegExpMatch> { ['1'], ['2'] }
+   *
+   * @param text The text to search.
+   * @param pattern A regular expression, or its source.
+   * @param flags Flags of the regular expression when given as a string.
+   * @returns A new `Iter` object.
+   */
+  static matches<P extends string>(
+    text: string,
+    pattern: P,
+    flags?: string
+  ): Iter<RegExpMatch<GroupNames<P>>>
+  static matches<G extends string = string>(
+    text: string,
+    pattern: RegExp
+  ): Iter<RegExpMatch<G>>
+  static matches(text: string, pattern: string | RegExp, flags?: string) {
+    // Fails early on an invalid pattern.
+    toGlobal(pattern, flags)
+
+    return new Iter(() => matchText(text, toGlobal(pattern, flags)))
+  }
+
+  /**
+   * # Iter.graphemes
+   *
+   * Utility method to create an `Iter` object with the user-perceived
+   * characters of a text, so that emoji sequences and combining marks aren't
+   * split apart. Relies on `Intl.Segmenter`.
+   *
+   * @example
+   *
+   * Iter.graphemes('e\u0301👍🏽') // Iter<string> { 'é', '👍🏽' }
+   *
+   * @param text The text to split.
+   * @param locale Locale of the text, the runtime's default one if omitted.
+   * @returns A new `Iter` object.
+   */
+  static graphemes(text: string, locale?: string) {
+    if (typeof Intl.Segmenter !== 'function') {
+      throw new TypeError('Iter.graphemes: Intl.Segmenter is not supported')
+    }
+
+    const segmenter = new Intl.Segmenter(locale, { granularity: 'grapheme' })
+    const factory = function* () {
+      for (const { segment } of segmenter.segment(text)) {
+        yield segment
+      }
+    }
+
+    return new Iter(factory)
+  }
+
+  /**
+   * # Iter.traverse
+   *
+   * Utility method to create an `Iter` object walking a tree, or a graph with
+   * the `unique` option, from its root. Children are only read when the walk
+   * reaches them, so huge or endless trees can be walked lazily.
+   *
+   * @example
+   *
+   * Iter.traverse(root, node => node.children) // Iter<Node> { root, ... }
+   * Iter.traverse(root, node => node.children, { order: 'bfs' }) // Iter<Node> { ... }
+   *
+   * @param root The node the walk starts from.
+   * @param children A function returning the children of a node, if any.
+   * @param options The walk order and whether visited nodes are skipped.
+   * @returns A new `Iter` object.
+   */
+  static traverse<T>(
+    root: T,
+    children: (node: T) => Iterable<T> | null | undefined,
+    { order = 'dfs-pre', unique = false }: TraverseOptions = {}
+  ) {
+    const expand = (node: T) => (children(node) ?? [])[Symbol.iterator]()
+
+    const depthFirst = function* () {
+      const seen = new Set<T>([root])
+      const stack: [T, Iterator<T>][] = []
+
+      if (order === 'dfs-pre') {
+        yield root
+      }
+
+      stack.push([root, expand(root)])
+
+      try {
+        while (stack.length > 0) {
+          const [node, iterator] = stack[stack.length - 1]
+          const next = iterator.next()
+
+          if (next.done) {
+            stack.pop()
+
+            if (order === 'dfs-post') {
+              yield node
+            }
+
+            continue
+          }
+
+          if (unique) {
+            if (seen.has(next.value)) {
+              continue
+            }
+
+            seen.add(next.value)
+          }
+
+          if (order === 'dfs-pre') {
+            yield next.value
+          }
+
+          stack.push([next.value, expand(next.value)])
+        }
+      } finally {
+        closeAll(stack.map(([, iterator]) => iterator))
+      }
+    }
+
+    const breadthFirst = function* () {
+      const seen = new Set<T>([root])
+      let queue = [root]
+      let head = 0
+
+      while (head < queue.length) {
+        const node = queue[head++]
+        yield node
+
+        for (const child of children(node) ?? []) {
+          if (unique) {
+            if (seen.has(child)) {
+              continue
+            }
+
+            seen.add(child)
+          }
+
+          queue.push(child)
+        }
+
+        if (head > 1024 && head * 2 > queue.length) {
+          queue = queue.slice(head)
+          head = 0
+        }
+      }
+    }
+
+    return new Iter(order === 'bfs' ? breadthFirst : depthFirst)
+  }
+
+  /**
+   * # Iter.concat
+   *
+   * Utility method to create an `Iter` object chaining the entries of many
+   * iterables.
+   *
+   * @example
+   *
+   * Iter.concat([1, 2], Iter.range(3, 5)) // Iter<number> { ... }
+   *
+   * @param sources Iterables to chain in order.
+   * @returns A new `Iter` object.
+   */
+  static concat<T extends unknown[]>(
+    ...sources: { [K in keyof T]: Iterable<T[K]> }
+  ) {
+    const factory = function* (): Generator<T[number], void, undefined> {
+      for (const source of sources) {
+        yield* source
+      }
+    }
+
+    return new Iter(factory)
+  }
 }
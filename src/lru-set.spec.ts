@@ -0,0 +1,23 @@
+import LruSet from './lru-set'
+
+describe('LruSet', () => {
+  it('should behave as a set without a maximum size', () => {
+    const set = new LruSet<number>()
+    set.add(1).add(2).add(1)
+    expect(set.size).toBe(2)
+    expect(set.has(1)).toBe(true)
+    expect(set.has(3)).toBe(false)
+  })
+
+  it('should evict the least recently used value', () => {
+    const set = new LruSet<number>(2)
+    set.add(1).add(2)
+    expect(set.has(1)).toBe(true)
+    set.add(3)
+
+    expect(set.size).toBe(2)
+    expect(set.has(2)).toBe(false)
+    expect(set.has(1)).toBe(true)
+    expect(set.has(3)).toBe(true)
+  })
+})
@@ -0,0 +1,49 @@
+/**
+ * # LruSet
+ *
+ * A set holding at most `maxSize` values. Adding a value to a full set
+ * evicts the least recently used one, looking a value up marks it as used.
+ */
+export default class LruSet<T> {
+  private values = new Map<T, true>()
+
+  constructor(readonly maxSize = Infinity) {}
+
+  /**
+   * Number of values in the set.
+   */
+  get size() {
+    return this.values.size
+  }
+
+  /**
+   * Checks whether a value is in the set, marking it as recently used.
+   *
+   * @param value Value to look up.
+   */
+  has(value: T) {
+    if (!this.values.delete(value)) {
+      return false
+    }
+
+    this.values.set(value, true)
+    return true
+  }
+
+  /**
+   * Adds a value to the set, evicting the least recently used value when
+   * the set is full.
+   *
+   * @param value Value to add.
+   */
+  add(value: T) {
+    this.values.delete(value)
+    this.values.set(value, true)
+
+    if (this.values.size > this.maxSize) {
+      this.values.delete(this.values.keys().next().value)
+    }
+
+    return this
+  }
+}
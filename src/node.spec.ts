@@ -0,0 +1,130 @@
+import { PassThrough, Writable } from 'stream'
+import Iter, { AbortError, AsyncIter } from './index'
+import { fromReadable, lines, pipeTo, toReadable } from './node'
+
+describe('Node.js streams', () => {
+  describe('fromReadable()', () => {
+    it('should yield the chunks of a Buffer mode stream', async () => {
+      const stream = new PassThrough()
+      stream.end(Buffer.from('abc'))
+
+      const result = await fromReadable(stream).collect()
+      expect(Buffer.concat(result).toString()).toBe('abc')
+    })
+
+    it('should yield the objects of an object mode stream', async () => {
+      const stream = new PassThrough({ objectMode: true })
+      stream.write({ id: 1 })
+      stream.end({ id: 2 })
+
+      const result = await fromReadable<{ id: number }>(stream)
+        .map((row) => row.id)
+        .collect()
+
+      expect(result).toEqual([1, 2])
+    })
+
+    it('should destroy the stream when stopping early', async () => {
+      const stream = new PassThrough({ objectMode: true })
+      stream.write(1)
+      stream.write(2)
+
+      const result = await fromReadable(stream).take(1).collect()
+
+      expect(result).toEqual([1])
+      expect(stream.destroyed).toBe(true)
+    })
+  })
+
+  describe('lines()', () => {
+    it('should split lines across chunks', async () => {
+      const stream = new PassThrough()
+      stream.write('first li')
+      stream.write('ne\r\nsecond line\nthi')
+      stream.end('rd line')
+
+      const result = await lines(stream).collect()
+      expect(result).toEqual(['first line', 'second line', 'third line'])
+    })
+
+    it('should decode characters split across chunks', async () => {
+      const stream = new PassThrough()
+      const bytes = Buffer.from('é\n€')
+
+      stream.write(bytes.subarray(0, 1))
+      stream.write(bytes.subarray(1, 4))
+      stream.end(bytes.subarray(4))
+
+      const result = await lines(stream).collect()
+      expect(result).toEqual(['é', '€'])
+    })
+  })
+
+  describe('toReadable()', () => {
+    it('should stream the entries of an Iter or an AsyncIter', async () => {
+      const fromIter = toReadable(Iter.range(0, 3))
+      const fromAsyncIter = toReadable(AsyncIter.range(0, 3))
+
+      expect(await fromReadable(fromIter).collect()).toEqual([0, 1, 2])
+      expect(await fromReadable(fromAsyncIter).collect()).toEqual([0, 1, 2])
+    })
+
+    it('should only read the source when the stream asks for more', () => {
+      const spy = jest.fn()
+      const stream = toReadable(Iter.range(0, Infinity).inspect(spy), {
+        highWaterMark: 2,
+      })
+
+      stream.read(0)
+      stream.destroy()
+
+      expect(spy.mock.calls.length).toBeLessThanOrEqual(3)
+    })
+  })
+
+  describe('pipeTo()', () => {
+    const sink = (chunks: string[], highWaterMark = 16) =>
+      new Writable({
+        objectMode: true,
+        highWaterMark,
+        write(chunk, _, callback) {
+          chunks.push(chunk)
+          setTimeout(callback, 1)
+        },
+      })
+
+    it('should write every entry and end the stream', async () => {
+      const chunks: string[] = []
+      const writable = sink(chunks, 1)
+
+      await pipeTo(
+        Iter.range(0, 5).map((x) => `${x}`),
+        writable
+      )
+
+      expect(chunks).toEqual(['0', '1', '2', '3', '4'])
+      expect(writable.writableFinished).toBe(true)
+    })
+
+    it('should reject when the source fails', async () => {
+      const source = Iter.fromGenerator(function* () {
+        yield 'a'
+        throw new Error('Boom')
+      })
+
+      await expect(pipeTo(source, sink([]))).rejects.toThrow('Boom')
+    })
+
+    it('should stop writing once the signal is aborted', async () => {
+      const controller = new AbortController()
+      const chunks: string[] = []
+      const source = AsyncIter.interval(5).map(String)
+
+      setTimeout(() => controller.abort(), 20)
+      await expect(
+        pipeTo(source, sink(chunks), { signal: controller.signal })
+      ).rejects.toThrow(AbortError)
+      expect(chunks.length).toBeLessThan(10)
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { pipeline, Readable, ReadableOptions, Writable } from 'stream'
+import { StringDecoder } from 'string_decoder'
+import { SignalOptions, throwIfAborted } from './abort'
+import AsyncIter from './async-iter'
+import { AbortError } from './errors'
+import { LineSplitter } from './text'
+
+/**
+ * # fromReadable
+ *
+ * Creates an `AsyncIter` object from a Node.js readable stream. Buffer mode
+ * streams yield `Buffer` chunks, or strings once an encoding is set, and
+ * object mode streams yield their objects. Stopping early destroys the
+ * stream.
+ *
+ * @example
+ *
+ * fromReadable(fs.createReadStream('data.bin')) // AsyncIter<Buffer> { ... }
+ * fromReadable<Row>(database.queryStream()) // AsyncIter<Row> { ... }
+ *
+ * @param readable The stream to read.
+ * @returns A new `AsyncIter` object.
+ */
+export const fromReadable = <A = Buffer>(readable: Readable) =>
+  AsyncIter.fromAsyncIterable<A>(readable)
+
+/**
+ * # lines
+ *
+ * Creates an `AsyncIter` object with the lines of a Node.js readable stream.
+ * Lines split across chunks, and characters split across `Buffer` chunks,
+ * are put back together.
+ *
+ * @example
+ *
+ * lines(fs.createReadStream('app.log')) // AsyncIter<string> { ... }
+ *
+ * @param readable The stream to read.
+ * @param encoding The encoding of `Buffer` chunks, `'utf8'` by default.
+ * @returns A new `AsyncIter` object.
+ */
+export const lines = (readable: Readable, encoding: BufferEncoding = 'utf8') =>
+  AsyncIter.fromAsyncGenerator(async function* () {
+    const decoder = new StringDecoder(encoding)
+    const splitter = new LineSplitter()
+
+    for await (const chunk of readable) {
+      const text = typeof chunk === 'string' ? chunk : decoder.write(chunk)
+      yield* splitter.push(text)
+    }
+
+    yield* splitter.push(decoder.end())
+    yield* splitter.flush()
+  })
+
+/**
+ * # toReadable
+ *
+ * Creates a Node.js readable stream from an `Iter`, an `AsyncIter` or any
+ * other iterable. Entries are only read when the stream asks for more, so a
+ * slow consumer slows down the source.
+ *
+ * @example
+ *
+ * toReadable(Iter.range(0, 10).map(String)) // Readable { ... }
+ *
+ * @param source The iterable to read the entries from.
+ * @param options Options of the stream, in object mode by default.
+ * @returns A new `Readable` stream.
+ */
+export const toReadable = <A>(
+  source: Iterable<A> | AsyncIterable<A>,
+  options?: ReadableOptions
+) => Readable.from(source, options)
+
+/**
+ * # pipeTo
+ *
+ * Writes every entry of an `Iter`, an `AsyncIter` or any other iterable into
+ * a Node.js writable stream, waiting for it to drain when its buffer is full.
+ * The stream is ended once the source is exhausted, and both sides are
+ * destroyed if either fails or the signal is aborted.
+ *
+ * @example
+ *
+ * await pipeTo(lines(input).map(line => `${line}\n`), fs.createWriteStream('out.log'))
+ *
+ * @param source The iterable to read the entries from.
+ * @param writable The stream to write to.
+ * @param options A signal to abort the writing with.
+ * @returns A promise resolving once every entry has been written.
+ */
+export const pipeTo = <A>(
+  source: Iterable<A> | AsyncIterable<A>,
+  writable: Writable,
+  { signal }: SignalOptions = {}
+) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal)
+
+    const readable = Readable.from(source)
+    const abort = () => readable.destroy(new AbortError(signal?.reason))
+
+    signal?.addEventListener('abort', abort, { once: true })
+    pipeline(readable, writable, (error) => {
+      signal?.removeEventListener('abort', abort)
+      return error ? reject(error) : resolve()
+    })
+  })
@@ -0,0 +1,189 @@
+import Iter, { AsyncIter, Pipeline, Transducer } from './index'
+
+describe('Pipeline', () => {
+  const evens = Pipeline.of<number>()
+    .filter((x) => x % 2 === 0)
+    .map((x) => x * 10)
+
+  describe('Pipeline.apply()', () => {
+    it('should apply the pipeline to an array', () => {
+      const result = evens.apply([1, 2, 3, 4]).collect()
+      expect(result).toEqual([20, 40])
+    })
+
+    it('should apply the pipeline to an Iter', () => {
+      const result = evens.apply(Iter.range(0, 5)).collect()
+      expect(result).toEqual([0, 20, 40])
+    })
+
+    it('should be reusable across sources', () => {
+      const pipeline = evens.take(1)
+      expect(pipeline.apply([1, 2, 4]).collect()).toEqual([20])
+      expect(pipeline.apply([4, 6]).collect()).toEqual([40])
+    })
+
+    it('should stop reading the source once done', () => {
+      const spy = jest.fn()
+      const result = evens
+        .take(2)
+        .apply(Iter.range(0, Infinity).inspect(spy))
+        .collect()
+
+      expect(result).toEqual([0, 20])
+      expect(spy).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('Pipeline.applyAsync()', () => {
+    it('should apply the pipeline to an async iterable', async () => {
+      const result = await evens.applyAsync(AsyncIter.range(0, 5)).collect()
+      expect(result).toEqual([0, 20, 40])
+    })
+  })
+
+  describe('Pipeline.reducer()', () => {
+    it('should turn the pipeline into a reducer', () => {
+      const sum = evens.take(2).reducer((a: number, b) => a + b)
+      expect([1, 2, 3, 4, 5, 6].reduce(sum, 0)).toBe(60)
+    })
+  })
+
+  describe('Pipeline - Operators', () => {
+    it('should reject entries', () => {
+      const result = Pipeline.of<number>()
+        .reject((x) => x > 1)
+        .apply([0, 1, 2])
+        .collect()
+
+      expect(result).toEqual([0, 1])
+    })
+
+    it('should inspect entries', () => {
+      const spy = jest.fn()
+      Pipeline.of<number>().inspect(spy).apply([0, 1]).collect()
+      expect(spy).toHaveBeenCalledTimes(2)
+    })
+
+    it('should enumerate entries', () => {
+      const result = Pipeline.of<string>().enumerate().apply('ab').collect()
+      expect(result).toEqual([
+        [0, 'a'],
+        [1, 'b'],
+      ])
+    })
+
+    it('should scan entries', () => {
+      const result = Pipeline.of<number>()
+        .scan((total, x) => total + x, 0)
+        .apply([1, 2, 3])
+        .collect()
+
+      expect(result).toEqual([1, 3, 6])
+    })
+
+    it('should take no entries', () => {
+      const result = Pipeline.of<number>().take(0).apply([1, 2]).collect()
+      expect(result).toEqual([])
+    })
+
+    it('should truncate fractional counts, as Iter.take() does', () => {
+      const source = [1, 2, 3, 4]
+
+      for (const count of [2.5, NaN, -1]) {
+        expect(
+          Pipeline.of<number>().take(count).apply(source).collect()
+        ).toEqual(Iter.fromArray(source).take(count).collect())
+      }
+    })
+
+    it('should not read the source when taking no entries', () => {
+      const source = jest.fn(function* () {
+        yield 1
+      })
+      const none = Pipeline.of<number>()
+        .map((x) => x * 2)
+        .take(0.5)
+      const reducer = none.reducer((a: number, b) => a + b)
+
+      expect(none.apply(Iter.fromGenerator(source)).collect()).toEqual([])
+      expect(none.map(String).apply(Iter.fromGenerator(source)).count()).toBe(0)
+      expect(
+        Pipeline.of<number>()
+          .pipe(none)
+          .apply(Iter.fromGenerator(source))
+          .count()
+      ).toBe(0)
+      expect(source).not.toHaveBeenCalled()
+      expect([1, 2].reduce(reducer, 0)).toBe(0)
+    })
+
+    it('should run custom transducers', () => {
+      const pairs: Transducer<number, [number, number]> = (sink) => {
+        let previous: number | undefined
+
+        return {
+          next: (item) => {
+            const open = previous === undefined || sink.next([previous, item])
+            previous = item
+            return open
+          },
+          complete: () => sink.complete(),
+        }
+      }
+
+      const result = Pipeline.of<number>()
+        .through(pairs)
+        .apply([1, 2, 3])
+        .collect()
+      expect(result).toEqual([
+        [1, 2],
+        [2, 3],
+      ])
+    })
+
+    it('should flush buffered entries on completion', () => {
+      const last: Transducer<number, number> = (sink) => {
+        let item: number | undefined
+
+        return {
+          next: (current) => {
+            item = current
+            return true
+          },
+          complete: () => {
+            if (item !== undefined) {
+              sink.next(item)
+            }
+
+            sink.complete()
+          },
+        }
+      }
+
+      const result = Pipeline.of<number>()
+        .through(last)
+        .apply([1, 2, 3])
+        .collect()
+      expect(result).toEqual([3])
+    })
+  })
+
+  describe('Pipeline.pipe()', () => {
+    const parse = Pipeline.of<string>().map(Number)
+    const format = Pipeline.of<number>().map((x) => `#${x}`)
+
+    it('should chain two pipelines', () => {
+      const result = parse.pipe(evens).apply(['1', '2']).collect()
+      expect(result).toEqual([20])
+    })
+
+    it('should chain many pipelines inferring every stage', () => {
+      const pipeline: Pipeline<string, string> = Pipeline.pipe(
+        parse,
+        evens,
+        format
+      )
+      expect(pipeline.apply(['2', '3', '4']).collect()).toEqual(['#20', '#40'])
+    })
+  })
+})
@@ -0,0 +1,459 @@
+import AsyncIter from './async-iter'
+import Iter from './index'
+
+/**
+ * # Sink
+ *
+ * A push-based consumer of entries, the building block of a `Pipeline`.
+ */
+export interface Sink<A> {
+  /**
+   * Pushes an entry into the sink.
+   *
+   * @returns `false` when the sink doesn't want any more entries.
+   */
+  next(item: A): boolean
+  /**
+   * Signals that no more entries will be pushed.
+   */
+  complete(): void
+}
+
+/**
+ * A function wrapping a sink of `B` entries into a sink of `A` entries. It is
+ * called once per run, so stateful operators keep their state in its scope.
+ */
+export type Transducer<A, B> = (sink: Sink<B>) => Sink<A>
+
+const noop = () => {}
+
+const collector = <B>(buffer: B[]): Sink<B> => ({
+  next: (item) => {
+    buffer.push(item)
+    return true
+  },
+  complete: noop,
+})
+
+/**
+ * # Pipeline
+ *
+ * A reusable chain of operators, built once and applied to any source: an
+ * `Iter`, an array, an async iterable, or used as a reducer.
+ *
+ * @example
+ *
+ * const evens = Pipeline.of<number>()
+ *   .filter(x => x % 2 === 0)
+ *   .map(x => x * 10)
+ *   .take(2)
+ *
+ * evens.apply([1, 2, 3, 4, 5, 6]).collect() // number[] [20, 40]
+ */
+export default class Pipeline<A, B> {
+  /**
+   * @param transducer The operators of the pipeline.
+   * @param closed Whether an operator takes no entries at all, in which case
+   * the source isn't read.
+   */
+  private constructor(
+    private transducer: Transducer<A, B>,
+    private closed = false
+  ) {}
+
+  /**
+   * # Pipeline.map
+   *
+   * Appends a mapping operator to a `Pipeline` object.
+   *
+   * @example
+   *
+   * Pipeline.of<number>().map(x => x * 2) // Pipeline<number, number> { ... }
+   *
+   * @param predicate A predicate function to map over the entry.
+   * @returns A new `Pipeline` ending with the operator.
+   */
+  map<C>(predicate: (item: B) => C) {
+    return this.through<C>((sink) => ({
+      next: (item) => sink.next(predicate(item)),
+      complete: () => sink.complete(),
+    }))
+  }
+
+  /**
+   * # Pipeline.filter
+   *
+   * Appends a filtering operator to a `Pipeline` object.
+   *
+   * @example
+   *
+   * Pipeline.of<number>().filter(x => x % 2 === 0) // Pipeline<number, number> { ... }
+   *
+   * @param predicate A predicate function to filter the entry.
+   * @returns A new `Pipeline` ending with the operator.
+   */
+  filter(predicate: (item: B) => boolean) {
+    return this.through<B>((sink) => ({
+      next: (item) => !predicate(item) || sink.next(item),
+      complete: () => sink.complete(),
+    }))
+  }
+
+  /**
+   * # Pipeline.reject
+   *
+   * Appends an operator dropping the entries matching a predicate to a
+   * `Pipeline` object.
+   *
+   * @example
+   *
+   * Pipeline.of<number>().reject(x => x % 2 === 0) // Pipeline<number, number> { ... }
+   *
+   * @param predicate A predicate function to filter the entry.
+   * @returns A new `Pipeline` ending with the operator.
+   */
+  reject(predicate: (item: B) => boolean) {
+    return this.filter((item) => !predicate(item))
+  }
+
+  /**
+   * # Pipeline.inspect
+   *
+   * Appends an operator calling a function with every entry to a `Pipeline`
+   * object.
+   *
+   * @example
+   *
+   * Pipeline.of<number>().inspect(console.log) // Pipeline<number, number> { ... }
+   *
+   * @param inspector A function to inspect every entry.
+   * @returns A new `Pipeline` ending with the operator.
+   */
+  inspect(inspector: (item: B) => void) {
+    return this.map((item) => {
+      inspector(item)
+      return item
+    })
+  }
+
+  /**
+   * # Pipeline.take
+   *
+   * Appends an operator taking a number of entries to a `Pipeline` object.
+   * The source isn't read any further once they are taken.
+   *
+   * @example
+   *
+   * Pipeline.of<number>().take(5) // Pipeline<number, number> { ... }
+   *
+   * @param count Number of entries to take.
+   * @returns A new `Pipeline` ending with the operator.
+   */
+  take(count: number) {
+    const limit = Math.trunc(count) || 0
+    const taken = this.through<B>((sink) => {
+      let i = 0
+
+      return {
+        next: (item) => {
+          if (i >= limit) {
+            return false
+          }
+
+          i++
+          return sink.next(item) && i < limit
+        },
+        complete: () => sink.complete(),
+      }
+    })
+
+    return limit > 0 ? taken : new Pipeline(taken.transducer, true)
+  }
+
+  /**
+   * # Pipeline.enumerate
+   *
+   * Appends an operator pairing every entry with its index to a `Pipeline`
+   * object.
+   *
+   * @example
+   *
+   * Pipeline.of<string>().enumerate() // Pipeline<string, [number, string]> { ... }
+   *
+   * @returns A new `Pipeline` ending with the operator.
+   */
+  enumerate() {
+    return this.through<[number, B]>((sink) => {
+      let i = 0
+
+      return {
+        next: (item) => sink.next([i++, item]),
+        complete: () => sink.complete(),
+      }
+    })
+  }
+
+  /**
+   * # Pipeline.scan
+   *
+   * Appends an operator yielding the running reduction of the entries to a
+   * `Pipeline` object.
+   *
+   * @example
+   *
+   * Pipeline.of<number>().scan((total, item) => total + item, 0) // Pipeline<number, number> { ... }
+   *
+   * @param scanner A scanner function to scan the entry.
+   * @param initial The initial value to start the scan.
+   * @returns A new `Pipeline` ending with the operator.
+   */
+  scan<C>(scanner: (scan: C, item: B) => C, initial: C) {
+    return this.through<C>((sink) => {
+      let val = initial
+
+      return {
+        next: (item) => sink.next((val = scanner(val, item))),
+        complete: () => sink.complete(),
+      }
+    })
+  }
+
+  /**
+   * # Pipeline.through
+   *
+   * Appends a custom operator, written as a transducer, to a `Pipeline`
+   * object.
+   *
+   * @example
+   *
+   * const double: Transducer<number, number> = (sink) => ({
+   *   next: (item) => sink.next(item) && sink.next(item),
+   *   complete: () => sink.complete(),
+   * })
+   *
+   * Pipeline.of<number>().through(double) // Pipeline<number, number> { ... }
+   *
+   * @param transducer The operator to append.
+   * @returns A new `Pipeline` ending with the operator.
+   */
+  through<C>(transducer: Transducer<B, C>) {
+    const previous = this.transducer
+    return new Pipeline<A, C>((sink) => previous(transducer(sink)), this.closed)
+  }
+
+  /**
+   * # Pipeline.pipe
+   *
+   * Chains another `Pipeline` object after this one.
+   *
+   * @example
+   *
+   * const parse = Pipeline.of<string>().map(Number)
+   * const evens = Pipeline.of<number>().filter(x => x % 2 === 0)
+   *
+   * parse.pipe(evens) // Pipeline<string, number> { ... }
+   *
+   * @param next The `Pipeline` to chain.
+   * @returns A new `Pipeline` running both of them.
+   */
+  pipe<C>(next: Pipeline<B, C>) {
+    const chained = this.through(next.transducer)
+    return next.closed ? new Pipeline(chained.transducer, true) : chained
+  }
+
+  /**
+   * # Pipeline.apply
+   *
+   * Applies a `Pipeline` object to an iterable, such as an `Iter` or an
+   * array.
+   *
+   * @example
+   *
+   * Pipeline.of<number>().map(x => x * 2).apply([1, 2, 3]) // Iter<number> { 2, 4, 6 }
+   *
+   * @param source The iterable to read the entries from.
+   * @returns A new `Iter` containing the entries produced by the pipeline.
+   */
+  apply(source: Iterable<A>) {
+    const { transducer, closed } = this
+    const factory = function* () {
+      if (closed) {
+        return
+      }
+
+      const buffer: B[] = []
+      const sink = transducer(collector(buffer))
+      let open = true
+
+      for (const item of source) {
+        open = sink.next(item)
+        yield* buffer.splice(0)
+
+        if (!open) {
+          return
+        }
+      }
+
+      sink.complete()
+      yield* buffer.splice(0)
+    }
+
+    return Iter.fromGenerator(factory)
+  }
+
+  /**
+   * # Pipeline.applyAsync
+   *
+   * Applies a `Pipeline` object to an async iterable, such as an `AsyncIter`
+   * or a Node.js stream.
+   *
+   * @example
+   *
+   * Pipeline.of<Buffer>().map(String).applyAsync(stream) // AsyncIter<string> { ... }
+   *
+   * @param source The async iterable to read the entries from.
+   * @returns A new `AsyncIter` containing the entries produced by the pipeline.
+   */
+  applyAsync(source: AsyncIterable<A>) {
+    const { transducer, closed } = this
+    const factory = async function* () {
+      if (closed) {
+        return
+      }
+
+      const buffer: B[] = []
+      const sink = transducer(collector(buffer))
+      let open = true
+
+      for await (const item of source) {
+        open = sink.next(item)
+        yield* buffer.splice(0)
+
+        if (!open) {
+          return
+        }
+      }
+
+      sink.complete()
+      yield* buffer.splice(0)
+    }
+
+    return AsyncIter.fromAsyncGenerator(factory)
+  }
+
+  /**
+   * # Pipeline.reducer
+   *
+   * Turns a `Pipeline` object into a reducer function, feeding every entry
+   * produced by the pipeline into `reducer`. The returned function keeps the
+   * state of the operators, so it must only be used for a single reduction.
+   *
+   * @example
+   *
+   * const sum = Pipeline.of<number>().filter(x => x > 1).reducer((a, b) => a + b)
+   *
+   * [1, 2, 3].reduce(sum, 0) // number { 5 }
+   *
+   * @param reducer A reducer function for the produced entries.
+   * @returns A reducer function for the source entries.
+   */
+  reducer<R>(reducer: (acc: R, item: B) => R) {
+    let acc: R
+    let open = !this.closed
+    const sink = this.transducer({
+      next: (item) => {
+        acc = reducer(acc, item)
+        return true
+      },
+      complete: noop,
+    })
+
+    return (current: R, item: A) => {
+      acc = current
+
+      if (open) {
+        open = sink.next(item)
+      }
+
+      return acc
+    }
+  }
+
+  /**
+   * # Pipeline.of
+   *
+   * Creates an empty `Pipeline` object, to which operators can be appended.
+   *
+   * @example
+   *
+   * Pipeline.of<number>() // Pipeline<number, number> { ... }
+   *
+   * @returns A new `Pipeline` passing every entry through.
+   */
+  static of<A>() {
+    return new Pipeline<A, A>((sink) => sink)
+  }
+
+  /**
+   * # Pipeline.pipe
+   *
+   * Chains many `Pipeline` objects, inferring the types across every stage.
+   *
+   * @example
+   *
+   * Pipeline.pipe(parse, evens, format) // Pipeline<string, string> { ... }
+   *
+   * @param pipelines The `Pipeline` objects to chain in order.
+   * @returns A new `Pipeline` running all of them.
+   */
+  static pipe<A, B>(p1: Pipeline<A, B>): Pipeline<A, B>
+  static pipe<A, B, C>(p1: Pipeline<A, B>, p2: Pipeline<B, C>): Pipeline<A, C>
+  static pipe<A, B, C, D>(
+    p1: Pipeline<A, B>,
+    p2: Pipeline<B, C>,
+    p3: Pipeline<C, D>
+  ): Pipeline<A, D>
+  static pipe<A, B, C, D, E>(
+    p1: Pipeline<A, B>,
+    p2: Pipeline<B, C>,
+    p3: Pipeline<C, D>,
+    p4: Pipeline<D, E>
+  ): Pipeline<A, E>
+  static pipe<A, B, C, D, E, F>(
+    p1: Pipeline<A, B>,
+    p2: Pipeline<B, C>,
+    p3: Pipeline<C, D>,
+    p4: Pipeline<D, E>,
+    p5: Pipeline<E, F>
+  ): Pipeline<A, F>
+  static pipe<A, B, C, D, E, F, G>(
+    p1: Pipeline<A, B>,
+    p2: Pipeline<B, C>,
+    p3: Pipeline<C, D>,
+    p4: Pipeline<D, E>,
+    p5: Pipeline<E, F>,
+    p6: Pipeline<F, G>
+  ): Pipeline<A, G>
+  static pipe<A, B, C, D, E, F, G, H>(
+    p1: Pipeline<A, B>,
+    p2: Pipeline<B, C>,
+    p3: Pipeline<C, D>,
+    p4: Pipeline<D, E>,
+    p5: Pipeline<E, F>,
+    p6: Pipeline<F, G>,
+    p7: Pipeline<G, H>
+  ): Pipeline<A, H>
+  static pipe<A, B, C, D, E, F, G, H, I>(
+    p1: Pipeline<A, B>,
+    p2: Pipeline<B, C>,
+    p3: Pipeline<C, D>,
+    p4: Pipeline<D, E>,
+    p5: Pipeline<E, F>,
+    p6: Pipeline<F, G>,
+    p7: Pipeline<G, H>,
+    p8: Pipeline<H, I>
+  ): Pipeline<A, I>
+  static pipe(...pipelines: Pipeline<unknown, unknown>[]) {
+    return pipelines.reduce((chain, next) => chain.pipe(next))
+  }
+}
@@ -0,0 +1,74 @@
+import { BigIntRange, NumberRange } from './range'
+
+describe('NumberRange', () => {
+  it('should compute its length without iterating', () => {
+    expect(new NumberRange(0, 10).length).toBe(10)
+    expect(new NumberRange(0, 10, 3).length).toBe(4)
+    expect(new NumberRange(0, 10, 5, { inclusive: true }).length).toBe(3)
+    expect(new NumberRange(5, 5).length).toBe(0)
+    expect(new NumberRange(0, Infinity).length).toBe(Infinity)
+  })
+
+  it('should index entries from both ends', () => {
+    const range = new NumberRange(10, 0, -2)
+
+    expect(range.at(0)).toBe(10)
+    expect(range.at(-1)).toBe(2)
+    expect(range.at(5)).toBeUndefined()
+    expect(range.at(1.5)).toBeUndefined()
+  })
+
+  it('should check whether a value lands on a step', () => {
+    const range = new NumberRange(0, 1, 0.1)
+
+    expect(range.has(0.3)).toBe(true)
+    expect(range.has(0.35)).toBe(false)
+    expect(range.has(1)).toBe(false)
+    expect(range.has(-0.1)).toBe(false)
+  })
+
+  it('should not accumulate float errors', () => {
+    const result = [...new NumberRange(0, 1, 0.1, { inclusive: true })]
+
+    expect(result).toHaveLength(11)
+    expect(result[3]).toBeCloseTo(0.3, 15)
+    expect(result[10]).toBe(1)
+  })
+
+  it('should throw a RangeError for invalid arguments', () => {
+    expect(() => new NumberRange(0, 10, 0)).toThrow(RangeError)
+    expect(() => new NumberRange(0, 10, NaN)).toThrow(RangeError)
+    expect(() => new NumberRange(0, 10, -1)).toThrow(RangeError)
+    expect(() => new NumberRange(10, 0, 1)).toThrow(RangeError)
+    expect(() => new NumberRange(NaN, 10)).toThrow(RangeError)
+  })
+})
+
+describe('BigIntRange', () => {
+  it('should behave as a NumberRange over bigints', () => {
+    const range = new BigIntRange(BigInt(0), BigInt(10), BigInt(3))
+
+    expect(range.length).toBe(BigInt(4))
+    expect([...range]).toEqual([0, 3, 6, 9].map(BigInt))
+    expect(range.at(-1)).toBe(BigInt(9))
+    expect(range.has(BigInt(6))).toBe(true)
+    expect(range.has(BigInt(7))).toBe(false)
+  })
+
+  it('should include the end when asked to', () => {
+    const range = new BigIntRange(BigInt(3), BigInt(0), undefined, {
+      inclusive: true,
+    })
+
+    expect([...range]).toEqual([3, 2, 1, 0].map(BigInt))
+  })
+
+  it('should throw a RangeError for invalid intervals', () => {
+    expect(() => new BigIntRange(BigInt(0), BigInt(1), BigInt(0))).toThrow(
+      RangeError
+    )
+    expect(() => new BigIntRange(BigInt(0), BigInt(1), BigInt(-1))).toThrow(
+      RangeError
+    )
+  })
+})
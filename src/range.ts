@@ -0,0 +1,259 @@
+/**
+ * Options for `Iter.range`.
+ */
+export type RangeOptions = {
+  /**
+   * Whether `end` is part of the range when a step lands on it. Defaults to
+   * `false`.
+   */
+  inclusive?: boolean
+}
+
+/**
+ * Relative tolerance used to decide whether a float lands on a step, so that
+ * `0.1 * 3` is treated as a step of `0.1` away from `0.3`.
+ */
+const TOLERANCE = 1e-9
+
+const isNear = (value: number, target: number) =>
+  Math.abs(value - target) <= TOLERANCE * Math.max(1, Math.abs(target))
+
+/**
+ * # NumberRange
+ *
+ * An arithmetic sequence of numbers. Every entry is computed from its index,
+ * so float intervals don't accumulate rounding errors, and the range can be
+ * queried without iterating it.
+ *
+ * @example
+ *
+ * const range = new NumberRange(0, 1, 0.25, { inclusive: true })
+ *
+ * range.length // 5
+ * range.at(-1) // 1
+ * range.has(0.5) // true
+ */
+export class NumberRange implements Iterable<number> {
+  /**
+   * Number of entries in the range, `Infinity` for endless ranges.
+   */
+  readonly length: number
+  readonly interval: number
+  private endsOnStep: boolean
+
+  constructor(
+    readonly start: number,
+    readonly end: number,
+    interval?: number,
+    options: RangeOptions = {}
+  ) {
+    this.interval = interval ?? (start <= end ? 1 : -1)
+
+    if (!Number.isFinite(start)) {
+      throw new RangeError(`range start must be a finite number, got ${start}`)
+    }
+
+    if (Number.isNaN(end)) {
+      throw new RangeError(`range end must be a number, got ${end}`)
+    }
+
+    if (!Number.isFinite(this.interval) || this.interval === 0) {
+      throw new RangeError(
+        `range interval must be a finite non-zero number, got ${this.interval}`
+      )
+    }
+
+    if ((end - start) * this.interval < 0) {
+      throw new RangeError(
+        `range interval ${this.interval} never reaches ${end} from ${start}`
+      )
+    }
+
+    const steps = (end - start) / this.interval
+    const nearest = Math.round(steps)
+
+    this.endsOnStep = Boolean(options.inclusive) && isNear(steps, nearest)
+
+    if (steps === Infinity) {
+      this.length = Infinity
+    } else if (isNear(steps, nearest)) {
+      this.length = this.endsOnStep ? nearest + 1 : nearest
+    } else {
+      this.length = Math.floor(steps) + 1
+    }
+  }
+
+  /**
+   * Returns the entry at a given index, counting from the end when negative.
+   *
+   * @param index Index of the entry.
+   * @returns The entry, or `undefined` when out of bounds.
+   */
+  at(index: number): number | undefined {
+    const i = index < 0 ? index + this.length : index
+
+    if (!Number.isInteger(i) || i < 0 || i >= this.length) {
+      return undefined
+    }
+
+    return this.get(i)
+  }
+
+  /**
+   * Checks whether a value is one of the entries of the range.
+   *
+   * @param value Value to look for.
+   * @returns `true` when the value lands on a step within the bounds.
+   */
+  has(value: number) {
+    const steps = (value - this.start) / this.interval
+    const nearest = Math.round(steps)
+
+    return isNear(steps, nearest) && nearest >= 0 && nearest < this.length
+  }
+
+  *[Symbol.iterator]() {
+    for (let i = 0; i < this.length; i++) {
+      yield this.get(i)
+    }
+  }
+
+  private get(i: number) {
+    if (this.endsOnStep && i === this.length - 1) {
+      return this.end
+    }
+
+    return this.start + i * this.interval
+  }
+}
+
+/**
+ * # BigIntRange
+ *
+ * An arithmetic sequence of bigints, which can be queried without iterating
+ * it.
+ *
+ * @example
+ *
+ * const range = new BigIntRange(BigInt(0), BigInt(10), BigInt(5))
+ *
+ * range.length // 2n
+ * range.has(BigInt(5)) // true
+ */
+export class BigIntRange implements Iterable<bigint> {
+  /**
+   * Number of entries in the range.
+   */
+  readonly length: bigint
+  readonly interval: bigint
+
+  constructor(
+    readonly start: bigint,
+    readonly end: bigint,
+    interval?: bigint,
+    options: RangeOptions = {}
+  ) {
+    const zero = BigInt(0)
+    this.interval = interval ?? BigInt(start <= end ? 1 : -1)
+
+    if (typeof end !== 'bigint' || typeof this.interval !== 'bigint') {
+      throw new TypeError('range bounds and interval must all be bigints')
+    }
+
+    if (this.interval === zero) {
+      throw new RangeError('range interval must be non-zero, got 0')
+    }
+
+    if ((end - start) * this.interval < zero) {
+      throw new RangeError(
+        `range interval ${this.interval} never reaches ${end} from ${start}`
+      )
+    }
+
+    const steps = (end - start) / this.interval
+    const onStep = (end - start) % this.interval === zero
+
+    this.length = onStep && !options.inclusive ? steps : steps + BigInt(1)
+  }
+
+  /**
+   * Returns the entry at a given index, counting from the end when negative.
+   *
+   * @param index Index of the entry.
+   * @returns The entry, or `undefined` when out of bounds.
+   */
+  at(index: bigint | number): bigint | undefined {
+    if (typeof index === 'number' && !Number.isInteger(index)) {
+      return undefined
+    }
+
+    const i = BigInt(index) < 0 ? BigInt(index) + this.length : BigInt(index)
+
+    if (i < 0 || i >= this.length) {
+      return undefined
+    }
+
+    return this.start + i * this.interval
+  }
+
+  /**
+   * Checks whether a value is one of the entries of the range.
+   *
+   * @param value Value to look for.
+   * @returns `true` when the value lands on a step within the bounds.
+   */
+  has(value: bigint) {
+    const offset = value - this.start
+
+    if (offset % this.interval !== BigInt(0)) {
+      return false
+    }
+
+    const i = offset / this.interval
+    return i >= 0 && i < this.length
+  }
+
+  *[Symbol.iterator]() {
+    for (let i = BigInt(0); i < this.length; i++) {
+      yield this.start + i * this.interval
+    }
+  }
+}
+
+/**
+ * The queries shared by `NumberRange` and `BigIntRange`.
+ */
+export type Range<T> = Iterable<T> & {
+  readonly length: number | bigint
+  at(index: number): T | undefined
+}
+
+/**
+ * Builds a range out of the arguments of `Iter.range`, where the interval can
+ * be omitted in favour of the options.
+ */
+export const createRange = <T extends number | bigint>(
+  start: T,
+  end: T,
+  interval?: T | RangeOptions,
+  options?: RangeOptions
+): Range<T> => {
+  const step = typeof interval === 'object' ? undefined : interval
+  const rest = typeof interval === 'object' ? interval : options
+
+  if (typeof start === 'bigint') {
+    return new BigIntRange(
+      start,
+      end as bigint,
+      step as bigint,
+      rest
+    ) as Range<T>
+  }
+
+  return new NumberRange(
+    start,
+    end as number,
+    step as number,
+    rest
+  ) as Range<T>
+}
@@ -0,0 +1,39 @@
+/**
+ * A successful `Result`, holding a value.
+ */
+export type Ok<T> = { ok: true; value: T }
+
+/**
+ * A failed `Result`, holding an error.
+ */
+export type Err<E> = { ok: false; error: E }
+
+/**
+ * # Result
+ *
+ * The outcome of an operation that may fail, as produced by `Iter.tryMap`.
+ * Keeping errors as entries lets a pipeline carry on past bad items.
+ *
+ * @example
+ *
+ * const result: Result<number, Error> = ok(1)
+ *
+ * if (result.ok) {
+ *   result.value // number { 1 }
+ * }
+ */
+export type Result<T, E = unknown> = Ok<T> | Err<E>
+
+/**
+ * Creates a successful `Result`.
+ *
+ * @param value The value of the result.
+ */
+export const ok = <T>(value: T): Ok<T> => ({ ok: true, value })
+
+/**
+ * Creates a failed `Result`.
+ *
+ * @param error The error of the result.
+ */
+export const err = <E>(error: E): Err<E> => ({ ok: false, error })
@@ -0,0 +1,52 @@
+import RingBuffer from './ring-buffer'
+
+describe('RingBuffer', () => {
+  let buffer: RingBuffer<number>
+
+  beforeEach(() => {
+    buffer = new RingBuffer(3)
+  })
+
+  it('should keep the entries in insertion order', () => {
+    buffer.push(1)
+    buffer.push(2)
+    expect(buffer.length).toBe(2)
+    expect(buffer.toArray()).toEqual([1, 2])
+  })
+
+  it('should evict the oldest entry when full', () => {
+    expect([1, 2, 3].map((x) => buffer.push(x))).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ])
+    expect(buffer.push(4)).toBe(1)
+    expect(buffer.toArray()).toEqual([2, 3, 4])
+    expect(buffer.at(0)).toBe(2)
+    expect(buffer.at(3)).toBeUndefined()
+  })
+
+  it('should shift the oldest entry', () => {
+    ;[1, 2, 3, 4].forEach((x) => buffer.push(x))
+    expect(buffer.shift()).toBe(2)
+    expect(buffer.shift()).toBe(3)
+    buffer.push(5)
+    expect(buffer.toArray()).toEqual([4, 5])
+    expect(buffer.shift()).toBe(4)
+    expect(buffer.shift()).toBe(5)
+    expect(buffer.shift()).toBeUndefined()
+  })
+
+  it('should not hold any entry with no capacity', () => {
+    const empty = new RingBuffer<number>(0)
+    expect(empty.push(1)).toBe(1)
+    expect(empty.toArray()).toEqual([])
+  })
+
+  it('should reject capacities that are not non-negative integers', () => {
+    expect(() => new RingBuffer(2.5)).toThrow(RangeError)
+    expect(() => new RingBuffer(NaN)).toThrow(RangeError)
+    expect(() => new RingBuffer(-1)).toThrow(RangeError)
+    expect(() => new RingBuffer(Infinity)).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * # RingBuffer
+ *
+ * A fixed-capacity FIFO buffer. Pushing into a full buffer evicts its oldest
+ * entry, so both `push` and `shift` run in constant time.
+ */
+export default class RingBuffer<T> {
+  private items: T[] = []
+  private head = 0
+  private size = 0
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 0) {
+      throw new RangeError(
+        `capacity must be a non-negative integer, got ${capacity}`
+      )
+    }
+  }
+
+  /**
+   * Number of entries currently in the buffer.
+   */
+  get length() {
+    return this.size
+  }
+
+  /**
+   * Appends an entry to the buffer, evicting the oldest one when it is full.
+   *
+   * @param item Entry to append.
+   * @returns The evicted entry, if any.
+   */
+  push(item: T): T | undefined {
+    if (this.capacity === 0) {
+      return item
+    }
+
+    const tail = (this.head + this.size) % this.capacity
+
+    if (this.size < this.capacity) {
+      this.items[tail] = item
+      this.size++
+      return undefined
+    }
+
+    const evicted = this.items[this.head]
+    this.items[this.head] = item
+    this.head = (this.head + 1) % this.capacity
+    return evicted
+  }
+
+  /**
+   * Removes the oldest entry of the buffer.
+   *
+   * @returns The removed entry, or `undefined` if the buffer is empty.
+   */
+  shift(): T | undefined {
+    if (this.size === 0) {
+      return undefined
+    }
+
+    const item = this.items[this.head]
+    delete this.items[this.head]
+    this.head = (this.head + 1) % this.capacity
+    this.size--
+    return item
+  }
+
+  /**
+   * Reads an entry of the buffer, `0` being the oldest one.
+   *
+   * @param index Position of the entry in the buffer.
+   * @returns The entry, or `undefined` if the index is out of bounds.
+   */
+  at(index: number): T | undefined {
+    if (index < 0 || index >= this.size) {
+      return undefined
+    }
+
+    return this.items[(this.head + index) % this.capacity]
+  }
+
+  /**
+   * Copies the entries of the buffer into an array, oldest first.
+   */
+  toArray(): T[] {
+    const result = new Array<T>(this.size)
+
+    for (let i = 0; i < this.size; i++) {
+      result[i] = this.items[(this.head + i) % this.capacity]
+    }
+
+    return result
+  }
+}
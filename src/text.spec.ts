@@ -0,0 +1,20 @@
+import { LineSplitter } from './text'
+
+describe('LineSplitter', () => {
+  it('should keep unfinished lines until the next chunk', () => {
+    const splitter = new LineSplitter()
+
+    expect(splitter.push('a\nb')).toEqual(['a'])
+    expect(splitter.push('c\r')).toEqual([])
+    expect(splitter.push('\nd')).toEqual(['bc'])
+    expect(splitter.flush()).toEqual(['d'])
+    expect(splitter.flush()).toEqual([])
+  })
+
+  it('should keep empty lines but not a trailing line break', () => {
+    const splitter = new LineSplitter()
+
+    expect(splitter.push('a\n\nb\n')).toEqual(['a', '', 'b'])
+    expect(splitter.flush()).toEqual([])
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * # LineSplitter
+ *
+ * Splits text arriving in chunks into lines, keeping the unfinished line of a
+ * chunk until the next one arrives. Lines end with `\n` or `\r\n`, and the
+ * line break isn't part of the line.
+ *
+ * @example
+ *
+ * const splitter = new LineSplitter()
+ *
+ * splitter.push('a\nb') // ['a']
+ * splitter.push('c\n') // ['bc']
+ * splitter.flush() // []
+ */
+export class LineSplitter {
+  private rest = ''
+
+  /**
+   * Adds a chunk of text.
+   *
+   * @returns The lines completed by the chunk.
+   */
+  push(chunk: string): string[] {
+    const lines = (this.rest + chunk).split('\n')
+    this.rest = lines.pop() as string
+
+    return lines.map(stripCarriageReturn)
+  }
+
+  /**
+   * Signals that no more text will arrive.
+   *
+   * @returns The last line, if it isn't empty.
+   */
+  flush(): string[] {
+    const rest = this.rest
+    this.rest = ''
+
+    return rest ? [stripCarriageReturn(rest)] : []
+  }
+}
+
+const stripCarriageReturn = (line: string) =>
+  line.endsWith('\r') ? line.slice(0, -1) : line
+
+/**
+ * The names of the named capture groups of a regular expression source, such
+ * as `'year' | 'month'` for `'(?<year>\\d{4})-(?<month>\\d{2})'`.
+ */
+export type GroupNames<P extends string> =
+  P extends `${string}(?<${infer Name}>${infer Rest}`
+    ? Name extends `${'=' | '!'}${string}`
+      ? GroupNames<Rest>
+      : Name | GroupNames<Rest>
+    : never
+
+/**
+ * A match of a regular expression, whose `groups` are typed after the named
+ * capture groups `G`.
+ */
+export type RegExpMatch<G extends string = string> = [G] extends [never]
+  ? RegExpExecArray
+  : RegExpExecArray & { groups: Record<G, string> }
+
+/**
+ * Copies a regular expression with the global flag set, so it can be run
+ * with `exec` from its `lastIndex` without touching the original.
+ */
+export const toGlobal = (pattern: string | RegExp, flags = '') => {
+  const source =
+    typeof pattern === 'string' ? new RegExp(pattern, flags) : pattern
+  const all = source.flags.includes('g') ? source.flags : source.flags + 'g'
+
+  return new RegExp(source.source, all)
+}
+
+/**
+ * Index following `index`, stepping over a whole surrogate pair in unicode
+ * mode, as `String.prototype.matchAll` does after an empty match.
+ */
+const advance = (text: string, index: number, unicode: boolean) => {
+  const code = text.codePointAt(index)
+  return unicode && code !== undefined && code > 0xffff ? index + 2 : index + 1
+}
+
+/**
+ * Lazily finds every match of a global regular expression, as
+ * `String.prototype.matchAll` does.
+ *
+ * @param text The text to search.
+ * @param regex A global regular expression, which is reset first.
+ */
+export function* matchText(text: string, regex: RegExp) {
+  regex.lastIndex = 0
+
+  for (let match = regex.exec(text); match; match = regex.exec(text)) {
+    if (match[0] === '') {
+      regex.lastIndex = advance(text, regex.lastIndex, regex.unicode)
+    }
+
+    yield match
+  }
+}
+
+/**
+ * Lazily splits a text around a separator, with the same results as
+ * `String.prototype.split`, except that the capture groups of a regular
+ * expression separator aren't included.
+ *
+ * @param text The text to split.
+ * @param separator A string, or a regular expression matching separators.
+ */
+export function* splitText(text: string, separator: string | RegExp) {
+  if (separator === '') {
+    for (let i = 0; i < text.length; i++) {
+      yield text[i]
+    }
+
+    return
+  }
+
+  if (typeof separator === 'string') {
+    let start = 0
+
+    for (
+      let end = text.indexOf(separator);
+      end !== -1;
+      end = text.indexOf(separator, start)
+    ) {
+      yield text.slice(start, end)
+      start = end + separator.length
+    }
+
+    yield text.slice(start)
+    return
+  }
+
+  const regex = toGlobal(separator)
+
+  if (text === '') {
+    if (!regex.exec(text)) {
+      yield text
+    }
+
+    return
+  }
+
+  let start = 0
+
+  for (const match of matchText(text, regex)) {
+    const end = match.index + match[0].length
+
+    if (match.index >= text.length) {
+      break
+    }
+
+    if (end !== start) {
+      yield text.slice(start, match.index)
+      start = end
+    }
+  }
+
+  yield text.slice(start)
+}
+
+/**
+ * Lazily splits a text into lines, with the same rules as `LineSplitter`.
+ *
+ * @param text The text to split.
+ */
+export function* splitLines(text: string) {
+  let start = 0
+
+  for (
+    let end = text.indexOf('\n');
+    end !== -1;
+    end = text.indexOf('\n', start)
+  ) {
+    yield stripCarriageReturn(text.slice(start, end))
+    start = end + 1
+  }
+
+  if (start < text.length) {
+    yield stripCarriageReturn(text.slice(start))
+  }
+}
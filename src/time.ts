@@ -0,0 +1,83 @@
+/**
+ * # Scheduler
+ *
+ * The clock and timers used by the time-based operators of `AsyncIter`.
+ * Injecting one makes those operators testable without waiting.
+ */
+export interface Scheduler {
+  /**
+   * Current time, in milliseconds.
+   */
+  now(): number
+  /**
+   * Calls `callback` once `ms` milliseconds have elapsed.
+   *
+   * @returns A handle to cancel the timer with `clearTimeout`.
+   */
+  setTimeout(callback: () => void, ms: number): unknown
+  /**
+   * Cancels a timer created by `setTimeout`.
+   */
+  clearTimeout(handle: unknown): void
+}
+
+/**
+ * Options shared by the time-based operators of `AsyncIter`.
+ */
+export type TimeOptions = {
+  /**
+   * The clock and timers to use, `defaultScheduler` by default.
+   */
+  scheduler?: Scheduler
+}
+
+/**
+ * The scheduler backed by `Date.now` and the global timers. The globals are
+ * read on every call, so timers faked after this module is loaded, as Jest
+ * does, are picked up.
+ */
+export const defaultScheduler: Scheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+/**
+ * Sentinel a `Timer` resolves to, telling it apart from other promises in a
+ * race.
+ */
+export const ELAPSED: unique symbol = Symbol('elapsed')
+
+/**
+ * A cancellable promise resolving once a delay has elapsed.
+ */
+export type Timer = {
+  promise: Promise<typeof ELAPSED>
+  cancel(): void
+}
+
+/**
+ * Starts a timer on a scheduler.
+ *
+ * @param scheduler The scheduler to use.
+ * @param ms The delay, in milliseconds.
+ */
+export const timer = (scheduler: Scheduler, ms: number): Timer => {
+  let handle: unknown
+
+  const promise = new Promise<typeof ELAPSED>((resolve) => {
+    handle = scheduler.setTimeout(() => resolve(ELAPSED), ms)
+  })
+
+  return { promise, cancel: () => scheduler.clearTimeout(handle) }
+}
+
+/**
+ * Throws a `RangeError` unless `ms` is a non-negative number of milliseconds.
+ */
+export const assertDuration = (name: string, ms: number) => {
+  if (!(ms >= 0) || ms === Infinity) {
+    throw new RangeError(`${name} must be a non-negative duration, got ${ms}`)
+  }
+}